@@ -0,0 +1,453 @@
+import { timingSafeEqual } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { PayWayClient } from "./client.js";
+import { parseRequestTime } from "./clock.js";
+import { PayWayError } from "./errors.js";
+import type {
+  CallbackBody,
+  CallbackReplayStore,
+  PaywayCallbackPayload,
+  VerifyCallbackOptions,
+} from "./types.js";
+
+/**
+ * Reason a callback notification was rejected
+ */
+export type CallbackErrorReason =
+  | "malformed"
+  | "missing_signature"
+  | "invalid_signature"
+  | "stale"
+  | "replayed";
+
+/**
+ * Error thrown when a callback notification cannot be trusted
+ *
+ * Respond with a 4xx status and do NOT fulfil the order when this is thrown.
+ */
+export class PayWayCallbackError extends PayWayError {
+  /**
+   * Why the notification was rejected (same value as code)
+   */
+  public readonly reason: CallbackErrorReason;
+
+  constructor(reason: CallbackErrorReason, message: string) {
+    super(message, { code: reason });
+    this.reason = reason;
+  }
+}
+
+/**
+ * In-memory replay store
+ *
+ * Good for a single process. Use a shared store (Redis, database)
+ * when running multiple instances.
+ */
+export class MemoryReplayStore implements CallbackReplayStore {
+  private readonly entries = new Map<string, number>();
+
+  add(key: string, ttlSeconds: number): boolean {
+    const now = Date.now();
+
+    // Drop expired keys so the map does not grow forever
+    for (const [k, expiresAt] of this.entries) {
+      if (expiresAt <= now) this.entries.delete(k);
+    }
+
+    if (this.entries.has(key)) return false;
+    this.entries.set(key, now + ttlSeconds * 1000);
+    return true;
+  }
+}
+
+// Default replay store per client, so separate merchants never share keys
+const defaultReplayStores = new WeakMap<PayWayClient, MemoryReplayStore>();
+
+function getDefaultReplayStore(client: PayWayClient): MemoryReplayStore {
+  let store = defaultReplayStores.get(client);
+  if (!store) {
+    store = new MemoryReplayStore();
+    defaultReplayStores.set(client, store);
+  }
+  return store;
+}
+
+/**
+ * Converts a raw body into ordered string entries
+ * @private
+ */
+function toEntries(body: CallbackBody, contentType = ""): [string, string][] {
+  if (body instanceof URLSearchParams) {
+    return [...body.entries()];
+  }
+
+  if (typeof body === "string" || body instanceof Uint8Array) {
+    const text =
+      typeof body === "string" ? body : Buffer.from(body).toString("utf8");
+    const trimmed = text.trim();
+
+    if (contentType.includes("application/json") || trimmed.startsWith("{")) {
+      let json: unknown;
+      try {
+        json = JSON.parse(trimmed);
+      } catch {
+        throw new PayWayCallbackError("malformed", "Callback body is not valid JSON");
+      }
+      if (json == null || typeof json !== "object" || Array.isArray(json)) {
+        throw new PayWayCallbackError("malformed", "Callback body must be a JSON object");
+      }
+      return toEntries(json as Record<string, unknown>);
+    }
+
+    return [...new URLSearchParams(trimmed).entries()];
+  }
+
+  if (body != null && typeof body === "object") {
+    // Filter out null and undefined values (same as create_payload)
+    return Object.entries(body)
+      .filter(([_k, v]) => v != null)
+      .map(([k, v]) => [k, typeof v === "object" ? JSON.stringify(v) : String(v)]);
+  }
+
+  throw new PayWayCallbackError("malformed", "Unsupported callback body type");
+}
+
+/**
+ * Parses a pushback notification without verifying it
+ *
+ * Accepts form-encoded or JSON bodies (as text, Buffer, URLSearchParams
+ * or an already parsed object). Use verifyCallback() for anything that
+ * changes order state.
+ *
+ * @param body - Raw or parsed request body
+ * @param contentType - Optional Content-Type header of the request
+ * @returns Typed callback payload
+ * @throws {PayWayCallbackError} If the body cannot be parsed or tran_id/status are missing
+ *
+ * @example
+ * ```typescript
+ * const callback = parseCallback('{"tran_id":"ORDER-123","apv":"123456","status":"00"}');
+ * console.log(callback.tran_id); // "ORDER-123"
+ * ```
+ */
+export function parseCallback(
+  body: CallbackBody,
+  contentType?: string
+): PaywayCallbackPayload {
+  const payload = Object.fromEntries(toEntries(body, contentType));
+
+  if (!payload.tran_id) {
+    throw new PayWayCallbackError("malformed", "Callback is missing tran_id");
+  }
+  if (payload.status == null) {
+    throw new PayWayCallbackError("malformed", "Callback is missing status");
+  }
+
+  return payload as PaywayCallbackPayload;
+}
+
+/**
+ * Verifies and parses a pushback notification
+ *
+ * Checks, in order:
+ * 1. The body parses and contains tran_id and status
+ * 2. The hash matches HMAC-SHA512 of all other values in the order received
+ *    (same algorithm as create_hash)
+ * 3. req_time (Cambodia time) is within maxAgeSeconds of now (the client's clock)
+ * 4. The notification has not been seen before
+ *
+ * @param client - PayWayClient holding the API key used to sign the notification
+ * @param body - Raw or parsed request body
+ * @param options - Verification options
+ * @returns Verified callback payload
+ * @throws {PayWayCallbackError} If any check fails (see error.reason)
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const callback = await verifyCallback(client, rawBody, {
+ *     contentType: req.headers["content-type"]
+ *   });
+ *   await markOrderPaid(callback.tran_id);
+ * } catch (error) {
+ *   if (error instanceof PayWayCallbackError) {
+ *     return new Response(error.reason, { status: 400 });
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export async function verifyCallback(
+  client: PayWayClient,
+  body: CallbackBody,
+  options: VerifyCallbackOptions = {}
+): Promise<PaywayCallbackPayload> {
+  const { maxAgeSeconds = 300, contentType, now = client.now() } = options;
+  const replayStore =
+    options.replayStore === undefined
+      ? getDefaultReplayStore(client)
+      : options.replayStore;
+
+  const entries = toEntries(body, contentType);
+  const payload = parseCallback(new URLSearchParams(entries));
+
+  // Step 1: Check signature over every value except the hash itself
+  const { hash } = payload;
+  if (!hash) {
+    throw new PayWayCallbackError("missing_signature", "Callback is missing hash");
+  }
+
+  const expected = client.create_hash(
+    entries.filter(([key]) => key !== "hash").map(([_k, v]) => v)
+  );
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(hash);
+  if (
+    expectedBuffer.length !== receivedBuffer.length ||
+    !timingSafeEqual(expectedBuffer, receivedBuffer)
+  ) {
+    throw new PayWayCallbackError("invalid_signature", "Callback hash does not match");
+  }
+
+  // Step 2: Reject stale notifications
+  if (maxAgeSeconds != null) {
+    if (!payload.req_time) {
+      throw new PayWayCallbackError(
+        "stale",
+        "Callback is missing req_time. Pass { maxAgeSeconds: null } to skip the staleness check."
+      );
+    }
+
+    const sentAt = parseRequestTime(payload.req_time);
+    if (Number.isNaN(sentAt.getTime())) {
+      throw new PayWayCallbackError("malformed", `Invalid req_time: ${payload.req_time}`);
+    }
+    if (Math.abs(now.getTime() - sentAt.getTime()) > maxAgeSeconds * 1000) {
+      throw new PayWayCallbackError(
+        "stale",
+        `Callback req_time ${payload.req_time} is outside the ${maxAgeSeconds}s window`
+      );
+    }
+  }
+
+  // Step 3: Reject replayed notifications (only after the signature is trusted)
+  if (replayStore) {
+    const ttlSeconds = maxAgeSeconds != null ? maxAgeSeconds * 2 : 24 * 60 * 60;
+    const isNew = await replayStore.add(`${payload.tran_id}:${hash}`, ttlSeconds);
+    if (!isNew) {
+      throw new PayWayCallbackError(
+        "replayed",
+        `Callback for ${payload.tran_id} has already been processed`
+      );
+    }
+  }
+
+  return payload;
+}
+
+// PayWay notifications are a handful of short fields
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Error for a request body over the maxBodyBytes limit
+ * @private
+ */
+function bodyTooLarge(maxBodyBytes: number): PayWayCallbackError {
+  return new PayWayCallbackError(
+    "malformed",
+    `Callback body exceeds ${maxBodyBytes} bytes. Pass { maxBodyBytes } to raise the limit.`
+  );
+}
+
+/**
+ * Reads the full body of a Node.js request, up to maxBodyBytes
+ * @private
+ */
+async function readNodeBody(req: IncomingMessage, maxBodyBytes: number): Promise<string> {
+  const declared = Number(req.headers["content-length"]);
+  if (declared > maxBodyBytes) throw bodyTooLarge(maxBodyBytes);
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of req) {
+    const buffer: Buffer = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+    received += buffer.length;
+    // Leaving the loop early destroys the stream, so the rest is never read
+    if (received > maxBodyBytes) throw bodyTooLarge(maxBodyBytes);
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Reads the full body of a Fetch API request, up to maxBodyBytes
+ * @private
+ */
+async function readFetchBody(request: Request, maxBodyBytes: number): Promise<string> {
+  const declared = Number(request.headers.get("content-length"));
+  if (declared > maxBodyBytes) throw bodyTooLarge(maxBodyBytes);
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBodyBytes) {
+      await reader.cancel();
+      throw bodyTooLarge(maxBodyBytes);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Verifies a callback from a plain Node.js `http` request
+ *
+ * @param client - PayWayClient holding the API key
+ * @param req - Incoming request (body not yet consumed)
+ * @param options - Verification options
+ * @returns Verified callback payload
+ * @throws {PayWayCallbackError} If the body exceeds maxBodyBytes or any check fails
+ *
+ * @example
+ * ```typescript
+ * http.createServer(async (req, res) => {
+ *   try {
+ *     const callback = await verifyNodeCallback(client, req);
+ *     await markOrderPaid(callback.tran_id);
+ *     res.writeHead(200).end("OK");
+ *   } catch {
+ *     res.writeHead(400).end();
+ *   }
+ * });
+ * ```
+ */
+export async function verifyNodeCallback(
+  client: PayWayClient,
+  req: IncomingMessage,
+  options: VerifyCallbackOptions = {}
+): Promise<PaywayCallbackPayload> {
+  const body = await readNodeBody(req, options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES);
+  return verifyCallback(client, body, {
+    contentType: req.headers["content-type"],
+    ...options,
+  });
+}
+
+/**
+ * Minimal Express-style request (works with Express, Connect and similar)
+ */
+export interface ExpressLikeRequest extends IncomingMessage {
+  body?: unknown;
+}
+
+/**
+ * Minimal Express-style response
+ */
+export interface ExpressLikeResponse {
+  locals: Record<string, any>;
+}
+
+/**
+ * Verifies a callback from an Express-style request
+ *
+ * Works whether or not a body parser (express.json / express.urlencoded /
+ * express.raw / express.text) already ran.
+ *
+ * @param client - PayWayClient holding the API key
+ * @param req - Express request
+ * @param options - Verification options
+ * @returns Verified callback payload
+ */
+export async function verifyExpressCallback(
+  client: PayWayClient,
+  req: ExpressLikeRequest,
+  options: VerifyCallbackOptions = {}
+): Promise<PaywayCallbackPayload> {
+  const { body } = req;
+  const hasParsedBody =
+    body != null &&
+    (typeof body === "string" ||
+      body instanceof Uint8Array ||
+      (typeof body === "object" && Object.keys(body).length > 0));
+
+  if (!hasParsedBody) {
+    return verifyNodeCallback(client, req, options);
+  }
+
+  return verifyCallback(client, body as CallbackBody, {
+    contentType: req.headers["content-type"],
+    ...options,
+  });
+}
+
+/**
+ * Creates Express-style middleware that verifies PayWay callbacks
+ *
+ * On success the payload is stored in `res.locals.paywayCallback`.
+ * On failure the error is passed to `next()`.
+ *
+ * @param client - PayWayClient holding the API key
+ * @param options - Verification options
+ * @returns Express middleware
+ *
+ * @example
+ * ```typescript
+ * app.post("/payway/callback", paywayCallbackMiddleware(client), async (req, res) => {
+ *   await markOrderPaid(res.locals.paywayCallback.tran_id);
+ *   res.sendStatus(200);
+ * });
+ * ```
+ */
+export function paywayCallbackMiddleware(
+  client: PayWayClient,
+  options: VerifyCallbackOptions = {}
+) {
+  return async (
+    req: ExpressLikeRequest,
+    res: ExpressLikeResponse,
+    next: (error?: unknown) => void
+  ): Promise<void> => {
+    try {
+      res.locals.paywayCallback = await verifyExpressCallback(client, req, options);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Verifies a callback from a Fetch API `Request`
+ * (Next.js route handlers, Hono, Cloudflare Workers, Deno, Bun)
+ *
+ * @param client - PayWayClient holding the API key
+ * @param request - Fetch API request (body not yet consumed)
+ * @param options - Verification options
+ * @returns Verified callback payload
+ * @throws {PayWayCallbackError} If the body exceeds maxBodyBytes or any check fails
+ *
+ * @example
+ * ```typescript
+ * export async function POST(request: Request) {
+ *   const callback = await verifyFetchCallback(client, request);
+ *   await markOrderPaid(callback.tran_id);
+ *   return new Response("OK");
+ * }
+ * ```
+ */
+export async function verifyFetchCallback(
+  client: PayWayClient,
+  request: Request,
+  options: VerifyCallbackOptions = {}
+): Promise<PaywayCallbackPayload> {
+  const body = await readFetchBody(request, options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES);
+  return verifyCallback(client, body, {
+    contentType: request.headers.get("content-type") ?? undefined,
+    ...options,
+  });
+}
@@ -0,0 +1,169 @@
+import { PayWayConfigError } from "./errors.js";
+import type {
+  CheckoutFormOptions,
+  CheckoutResponseOptions,
+  PayloadBuilderResponse,
+} from "./types.js";
+
+/**
+ * Form id and target name ABA's checkout plugin looks for in popup mode
+ */
+const POPUP_FORM_ID = "aba_merchant_request";
+const POPUP_TARGET = "aba_webservice";
+
+/**
+ * Path of ABA's checkout plugin, relative to the checkout host
+ */
+const CHECKOUT_PLUGIN_PATH = "/plugins/checkout2-0.js";
+
+/**
+ * Escapes text for use in HTML content and quoted attribute values
+ * @private
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Renders a signed payload as an HTML form that submits to ABA PayWay
+ *
+ * Replaces the DOM snippet every integration used to copy: every field is
+ * a hidden input, and values are HTML-escaped. The only scripts are static
+ * (no payload data is interpolated into JavaScript) and carry the nonce, so
+ * the form works under a `script-src 'nonce-...'` Content Security Policy.
+ * Without JavaScript a submit button is shown instead.
+ *
+ * The payload's view_type decides how checkout opens:
+ * - "hosted_view" (or none): the form posts to `target` (default: the current page)
+ * - "popup": ABA's checkout plugin is loaded and opens the checkout as a
+ *   modal (desktop) or bottom sheet (mobile)
+ *
+ * @param payload - Payload from buildTransactionPayload() (or another form-based builder)
+ * @param options - Auto-submit, CSP nonce, target and button label
+ * @returns HTML fragment (form and scripts) to embed in a page
+ * @throws {PayWayConfigError} With code "UNSUPPORTED_PAYLOAD" for payloads with file uploads
+ *
+ * @example
+ * ```typescript
+ * // Express
+ * app.post("/checkout", (req, res) => {
+ *   const payload = client.buildTransactionPayload({ tran_id, amount, view_type: "popup" });
+ *   const form = renderCheckoutForm(payload, { nonce: res.locals.cspNonce });
+ *   res.send(`<!DOCTYPE html><html><body>${form}</body></html>`);
+ * });
+ * ```
+ */
+export function renderCheckoutForm(
+  payload: PayloadBuilderResponse,
+  options: CheckoutFormOptions = {}
+): string {
+  if (payload.files && Object.keys(payload.files).length > 0) {
+    throw new PayWayConfigError(
+      "Payloads with file uploads cannot be rendered as a checkout form. Use execute() instead.",
+      { code: "UNSUPPORTED_PAYLOAD" }
+    );
+  }
+
+  const {
+    autoSubmit = true,
+    nonce,
+    buttonLabel = "Continue to ABA PayWay",
+  } = options;
+  const popup = payload.fields.view_type === "popup";
+  const formId = options.formId ?? (popup ? POPUP_FORM_ID : "payway_checkout");
+  const target = options.target ?? (popup ? POPUP_TARGET : undefined);
+  const nonceAttr = nonce != null ? ` nonce="${escapeHtml(nonce)}"` : "";
+
+  // Step 1: The form, one hidden input per signed field
+  const attributes = [
+    `id="${escapeHtml(formId)}"`,
+    `method="${escapeHtml(payload.method)}"`,
+    `action="${escapeHtml(payload.url)}"`,
+    ...(target != null ? [`target="${escapeHtml(target)}"`] : []),
+  ];
+  const inputs = Object.entries(payload.fields).map(
+    ([name, value]) =>
+      `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(String(value))}">`
+  );
+  const button = `<button type="submit">${escapeHtml(buttonLabel)}</button>`;
+  const html = [
+    `<form ${attributes.join(" ")}>`,
+    ...inputs.map((input) => `  ${input}`),
+    `  ${autoSubmit ? `<noscript>${button}</noscript>` : button}`,
+    `</form>`,
+  ];
+
+  // Step 2: Scripts (static code only, so the nonce is all CSP needs)
+  const formRef = `document.getElementById(${JSON.stringify(formId).replace(/</g, "\\u003c")})`;
+  if (popup) {
+    const pluginUrl = options.pluginUrl ?? new URL(CHECKOUT_PLUGIN_PATH, payload.url).toString();
+    html.push(`<script src="${escapeHtml(pluginUrl)}"${nonceAttr}></script>`);
+    html.push(
+      autoSubmit
+        ? `<script${nonceAttr}>AbaPayway.checkout();</script>`
+        : `<script${nonceAttr}>${formRef}.addEventListener("submit", function (event) { ` +
+          `event.preventDefault(); AbaPayway.checkout(); });</script>`
+    );
+  } else if (autoSubmit) {
+    html.push(`<script${nonceAttr}>${formRef}.submit();</script>`);
+  }
+
+  return html.join("\n");
+}
+
+/**
+ * Renders a checkout form as a complete HTML page in a Fetch API Response
+ *
+ * Return it directly from route handlers that speak Request/Response
+ * (Next.js App Router, Hono, Remix, Bun, Deno, Cloudflare Workers).
+ * The page is sent with `Cache-Control: no-store` because the payload
+ * carries a one-time signature.
+ *
+ * @param payload - Payload from buildTransactionPayload()
+ * @param options - Form options, plus response status, headers and page title
+ * @returns text/html Response
+ * @throws {PayWayConfigError} With code "UNSUPPORTED_PAYLOAD" for payloads with file uploads
+ *
+ * @example
+ * ```typescript
+ * // app/checkout/route.ts (Next.js)
+ * export async function POST(request: Request) {
+ *   const { orderId, amount } = await request.json();
+ *   const payload = client.buildTransactionPayload({ tran_id: orderId, amount });
+ *   return checkoutFormResponse(payload, { nonce: request.headers.get("x-nonce") ?? undefined });
+ * }
+ * ```
+ */
+export function checkoutFormResponse(
+  payload: PayloadBuilderResponse,
+  options: CheckoutResponseOptions = {}
+): Response {
+  const { status = 200, headers, title = "Redirecting to ABA PayWay", ...formOptions } = options;
+
+  const page = [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    "</head>",
+    "<body>",
+    renderCheckoutForm(payload, formOptions),
+    "</body>",
+    "</html>",
+  ].join("\n");
+
+  const responseHeaders = new Headers(headers);
+  responseHeaders.set("Content-Type", "text/html; charset=utf-8");
+  if (!responseHeaders.has("Cache-Control")) {
+    responseHeaders.set("Cache-Control", "no-store");
+  }
+
+  return new Response(page, { status, headers: responseHeaders });
+}
@@ -1,18 +1,112 @@
-import { format } from "date-fns";
-import { createHmac, publicEncrypt, constants } from "node:crypto";
+import { createHmac, createPublicKey, publicEncrypt, constants } from "node:crypto";
+import type { KeyObject } from "node:crypto";
 import { trim } from "./utils.js";
+import { validatePayWayResponse } from "./responses.js";
+import { pollTransaction } from "./polling.js";
+import { serializeTransactionListFilter } from "./filters.js";
+import { formatPayWayDate } from "./dates.js";
+import { encodePayout, resolvePayout } from "./payouts.js";
+import { encodeItems, resolveItemsAmount } from "./items.js";
+import { enforceValidation, validateTransactionParams } from "./validation.js";
+import { formatRequestTime, systemClock } from "./clock.js";
+import {
+  currencyOf,
+  fromMinorUnits,
+  isMoney,
+  normalizeAmount,
+  toMinorUnits,
+} from "./money.js";
+import {
+  assertCredential,
+  assertRsaPublicKey,
+  normalizeBaseUrl,
+  resolveBaseUrl,
+} from "./config.js";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  computeBackoff,
+  isRetryableError,
+  isSafeOperation,
+  sleep,
+} from "./retry.js";
+import {
+  PayWayError,
+  PayWayAPIError,
+  PayWayConfigError,
+  PayWayNetworkError,
+  PayWayUnexpectedContentError,
+} from "./errors.js";
 import type {
   CreateTransactionParams,
   TransactionListParams,
   PayloadBuilderResponse,
   ExecuteOptions,
+  PayWayClientOptions,
+  PayWayClientConfig,
+  RetryOptions,
   CompletePreAuthParams,
   CompletePreAuthWithPayoutParams,
   CancelPreAuthParams,
+  EncryptedHashOrder,
+  RefundParams,
+  RefundResponse,
+  GenerateQRParams,
+  GenerateQRResponse,
+  LinkCardParams,
+  LinkAccountParams,
+  LinkAccountResponse,
+  ListTokensParams,
+  ConsumerTokenListResponse,
+  RemoveTokenParams,
+  RemoveTokenResponse,
+  TokenPurchaseParams,
+  TokenPurchaseResponse,
+  TransactionStatusUpdate,
+  WaitForTransactionOptions,
+  PreAuthResponse,
   ReturnType,
   PaywayPaymentStatusCheckResponse,
+  CheckTransactionResponse,
+  TransactionListResponse,
+  TransactionRecord,
+  SettlementReportParams,
+  SettlementReportResponse,
+  PayoutStatementParams,
+  PayoutStatementResponse,
+  CreatePaymentLinkParams,
+  UpdatePaymentLinkParams,
+  PaymentLinkIdParams,
+  ListPaymentLinksParams,
+  PaymentLinkResponse,
+  PaymentLinkListResponse,
 } from "./types.js";
 
+/**
+ * Bytes of every RSA block taken by PKCS#1 v1.5 padding
+ */
+const PKCS1_PADDING_BYTES = 11;
+
+/**
+ * Any response execute() can return
+ */
+type ExecuteResult =
+  | ReturnType
+  | PaywayPaymentStatusCheckResponse
+  | CheckTransactionResponse
+  | TransactionListResponse
+  | SettlementReportResponse
+  | PayoutStatementResponse
+  | PreAuthResponse
+  | RefundResponse
+  | PaymentLinkResponse
+  | PaymentLinkListResponse
+  | GenerateQRResponse
+  | LinkAccountResponse
+  | ConsumerTokenListResponse
+  | RemoveTokenResponse
+  | TokenPurchaseResponse
+  | string;
+
 /**
  * PayWay API Client for ABA PayWay payment gateway
  *
@@ -28,19 +122,67 @@ export class PayWayClient {
   public readonly merchant_id: string;
   public readonly api_key: string;
   public readonly rsa_public_key?: string;
+  private readonly transport: PayWayClientOptions;
 
   /**
    * Creates a new PayWayClient instance
    * @param base_url - Base URL of the PayWay API (e.g., https://checkout-sandbox.payway.com.kh/)
    * @param merchant_id - Your merchant ID from ABA Bank
    * @param api_key - Your API key from ABA Bank
-   * @param rsa_public_key - Optional RSA public key from ABA Bank (required for pre-auth operations)
+   * @param rsa_public_key - Optional RSA public key from ABA Bank (required for pre-auth and refund operations)
+   * @param options - Optional transport options (custom fetch, default timeout, extra headers)
+   * 
+   * Prefer PayWayClient.create(), which validates the configuration up front.
    */
-  constructor(base_url: string, merchant_id: string, api_key: string, rsa_public_key?: string) {
-    this.base_url = base_url;
+  constructor(
+    base_url: string,
+    merchant_id: string,
+    api_key: string,
+    rsa_public_key?: string,
+    options: PayWayClientOptions = {}
+  ) {
+    this.base_url = normalizeBaseUrl(base_url);
     this.merchant_id = merchant_id;
     this.api_key = api_key;
     this.rsa_public_key = rsa_public_key;
+    this.transport = options;
+  }
+
+  /**
+   * Creates a PayWayClient from an options object and validates it
+   * 
+   * - Resolves "sandbox" / "production" to the known PayWay base URLs
+   * - Requires HTTPS for custom base URLs and normalizes the trailing slash
+   * - Checks merchantId and apiKey are present
+   * - Checks rsaPublicKey parses as a PEM RSA public key (instead of failing
+   *   on the first pre-auth call)
+   * 
+   * @param config - Client configuration
+   * @returns Configured PayWayClient
+   * @throws {PayWayConfigError} If the configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const client = PayWayClient.create({
+   *   environment: "sandbox",
+   *   merchantId: process.env.PAYWAY_MERCHANT_ID!,
+   *   apiKey: process.env.PAYWAY_API_KEY!,
+   *   rsaPublicKey: process.env.PAYWAY_RSA_PUBLIC_KEY,
+   *   timeoutMs: 15_000
+   * });
+   * ```
+   */
+  static create(config: PayWayClientConfig): PayWayClient {
+    const { environment, merchantId, apiKey, rsaPublicKey, ...options } = config;
+
+    const base_url = resolveBaseUrl(environment);
+    assertCredential("merchantId", merchantId);
+    assertCredential("apiKey", apiKey);
+    if (rsaPublicKey != null) {
+      assertRsaPublicKey(rsaPublicKey);
+    }
+
+    return new PayWayClient(base_url, merchantId, apiKey, rsaPublicKey, options);
   }
 
   /**
@@ -54,70 +196,122 @@ export class PayWayClient {
   }
 
   /**
-   * Encrypts data with RSA public key in 117-byte chunks
+   * Encrypts data with RSA public key in chunks
    * 
-   * Used for pre-auth operations where sensitive data (mc_id, tran_id, complete_amount)
+   * Used for pre-auth and refund operations where sensitive data (mc_id, tran_id, amounts)
    * must be encrypted using ABA Bank's RSA public key.
    * 
+   * The JSON is split by UTF-8 bytes, not characters, so non-ASCII text (e.g., Khmer
+   * names) never overflows a block. The chunk size follows the key: PKCS#1 v1.5
+   * padding takes 11 bytes of every block, leaving 117 bytes for a 1024-bit key,
+   * 245 for 2048-bit and 501 for 4096-bit.
+   * 
    * @param data - Object to encrypt (will be JSON encoded)
    * @returns Base64 encoded encrypted data
-   * @throws Error if RSA public key is not configured
+   * @throws {PayWayConfigError} If RSA public key is not configured or cannot be parsed
    * @private
    */
   private encryptWithRSA(data: Record<string, any>): string {
     if (!this.rsa_public_key) {
-      throw new Error(
-        "RSA public key is required for pre-auth operations. " +
+      throw new PayWayConfigError(
+        "RSA public key is required for pre-auth operations and refunds. " +
         "Please provide it when initializing PayWayClient: " +
-        "new PayWayClient(base_url, merchant_id, api_key, rsa_public_key)"
+        "new PayWayClient(base_url, merchant_id, api_key, rsa_public_key)",
+        { code: "MISSING_RSA_PUBLIC_KEY" }
       );
     }
 
+    let key: KeyObject;
+    try {
+      key = createPublicKey(this.rsa_public_key);
+    } catch (cause) {
+      throw new PayWayConfigError("RSA public key could not be parsed", {
+        code: "INVALID_RSA_PUBLIC_KEY",
+        cause,
+      });
+    }
+
     // Step 1: JSON encode the data
-    const jsonData = JSON.stringify(data);
+    const jsonData = Buffer.from(JSON.stringify(data), "utf8");
     
-    // Step 2: Split into 117-byte chunks and encrypt each
-    // RSA with PKCS1 padding (1024-bit key) allows max 117 bytes per chunk
-    const maxChunkSize = 117;
-    let encryptedOutput = Buffer.alloc(0);
+    // Step 2: Split into chunks of (key size - 11) bytes and encrypt each
+    const modulusBytes = (key.asymmetricKeyDetails?.modulusLength ?? 1024) / 8;
+    const maxChunkSize = modulusBytes - PKCS1_PADDING_BYTES;
+    const encryptedChunks: Buffer[] = [];
     
     for (let i = 0; i < jsonData.length; i += maxChunkSize) {
-      const chunk = jsonData.slice(i, i + maxChunkSize);
-      
       // Encrypt the chunk using ABA's public key
-      const encryptedChunk = publicEncrypt(
-        {
-          key: this.rsa_public_key,
-          padding: constants.RSA_PKCS1_PADDING,
-        },
-        Buffer.from(chunk, 'utf8')
+      encryptedChunks.push(
+        publicEncrypt(
+          { key, padding: constants.RSA_PKCS1_PADDING },
+          jsonData.subarray(i, i + maxChunkSize)
+        )
       );
-      
-      // Concatenate encrypted chunks
-      encryptedOutput = Buffer.concat([encryptedOutput, encryptedChunk]);
     }
     
     // Step 3: Base64 encode the concatenated encrypted output
-    return encryptedOutput.toString('base64');
+    return Buffer.concat(encryptedChunks).toString('base64');
+  }
+
+  /**
+   * Validates the amount of a pre-auth completion
+   *
+   * When authorized_amount is given, complete_amount may be at most 10% higher
+   * (the limit PayWay applies to card pre-auths).
+   *
+   * @param params - Complete pre-auth parameters
+   * @returns Normalized complete_amount and the currency it was checked against
+   * @throws {PayWayConfigError} With code "INVALID_AMOUNT" or "COMPLETE_AMOUNT_TOO_HIGH"
+   * @private
+   */
+  private preAuthCompleteAmount(
+    params: Pick<CompletePreAuthParams, "complete_amount" | "authorized_amount" | "currency">
+  ): { complete_amount: number | string; currency: string } {
+    const currency = params.currency ?? currencyOf(params.complete_amount);
+    const complete_amount = normalizeAmount(params.complete_amount, currency, "complete_amount");
+
+    if (params.authorized_amount != null) {
+      const completeUnits = toMinorUnits(params.complete_amount, currency, "complete_amount");
+      const authorizedUnits = toMinorUnits(params.authorized_amount, currency, "authorized_amount");
+      const maxUnits = Math.floor((authorizedUnits * 11) / 10);
+      if (completeUnits > maxUnits) {
+        throw new PayWayConfigError(
+          `complete_amount ${complete_amount} is more than 10% above the authorized amount ` +
+          `(maximum ${fromMinorUnits(maxUnits, currency)} ${currency})`,
+          { code: "COMPLETE_AMOUNT_TOO_HIGH" }
+        );
+      }
+    }
+
+    return { complete_amount, currency };
+  }
+
+  /**
+   * Current time from the configured clock
+   *
+   * @returns clock() if one was passed to the constructor, otherwise new Date()
+   */
+  now(): Date {
+    return (this.transport.clock ?? systemClock)();
   }
 
   /**
    * Creates payload fields with hash signature
    * @param body - Request body parameters
-   * @param date - Date for the request (defaults to current date)
+   * @param date - Date for the request (defaults to the client's clock)
    * @returns Plain object with all fields including hash
    * @private
    */
   private create_payload(
     body: Record<string, any> = {},
-    date: Date = new Date()
+    date: Date = this.now()
   ): Record<string, string> {
     // Filter out null and undefined values
     body = Object.fromEntries(
       Object.entries(body).filter(([_k, v]) => v != null)
     );
 
-    const req_time = format(date, "yyyyMMddHHmmss");
+    const req_time = formatRequestTime(date);
     const merchant_id = this.merchant_id;
 
     // Create hash with req_time, merchant_id, and all body values
@@ -144,14 +338,61 @@ export class PayWayClient {
     return fields;
   }
 
+  /**
+   * Builds an encrypted merchant-portal request
+   *
+   * Shared by every endpoint that sends its data in merchant_auth: the data
+   * is RSA-encrypted, request_time is taken from the client's clock, and the
+   * fields are signed in the order PayWay hashes them for the endpoint.
+   *
+   * @param data - Values to encrypt (null and undefined are dropped)
+   * @param path - Endpoint path below base_url
+   * @param hash_order - Order of the signed fields (default: "auth_first")
+   * @returns Payload with fields, hash, and URL
+   * @throws {PayWayConfigError} If RSA public key is not configured
+   * @private
+   */
+  private create_encrypted_payload(
+    data: Record<string, any>,
+    path: string,
+    hash_order: EncryptedHashOrder = "auth_first"
+  ): PayloadBuilderResponse {
+    // Step 1: Encrypt the data with RSA public key
+    const merchant_auth = this.encryptWithRSA(
+      Object.fromEntries(Object.entries(data).filter(([_k, v]) => v != null))
+    );
+
+    // Step 2: Create request time
+    const request_time = formatRequestTime(this.now());
+
+    // Step 3: Sign the fields in the endpoint's hash order
+    const signed: Record<string, string> =
+      hash_order === "auth_first"
+        ? { merchant_auth, request_time, merchant_id: this.merchant_id }
+        : { request_time, merchant_id: this.merchant_id, merchant_auth };
+    const hash = this.create_hash(Object.values(signed));
+
+    return {
+      fields: { ...signed, hash },
+      hash,
+      url: `${this.base_url}${path}`,
+      method: "POST",
+    };
+  }
+
   /**
    * Builds a payment transaction payload
    *
    * Use this to create a client-side form that submits directly to ABA PayWay.
    * The returned payload contains all fields (including hash) and the URL.
    *
+   * Parameters are checked against ABA's field rules first (see
+   * validateTransactionParams); the client's `validation` option decides
+   * whether a violation throws, warns or is ignored.
+   *
    * @param params - Transaction parameters
    * @returns Payload with fields, hash, and URL for form submission
+   * @throws {PayWayValidationError} In "strict" validation mode, listing every invalid field
    *
    * @example
    * ```typescript
@@ -179,6 +420,9 @@ export class PayWayClient {
    * }
    * document.body.appendChild(form);
    * form.submit();
+   *
+   * // Or render the form on the server
+   * return checkoutFormResponse(payload);
    * ```
    */
   buildTransactionPayload(
@@ -211,6 +455,13 @@ export class PayWayClient {
       additional_params,
     } = params;
 
+    enforceValidation(
+      validateTransactionParams(params),
+      "purchase",
+      this.transport.validation ?? "warn",
+      this.transport.onValidationWarning
+    );
+
     function base64(d: string): string {
       return Buffer.from(d).toString("base64");
     }
@@ -235,12 +486,32 @@ export class PayWayClient {
       processedReturnDeeplink = base64(JSON.stringify(return_deeplink));
     }
 
+    // Amounts are checked against the currency's precision (a Money amount sets the currency)
+    const processedCurrency = currency ?? (isMoney(amount) ? amount.currency : undefined);
+    const amountCurrency = processedCurrency ?? "USD";
+
+    // Typed items are validated and can supply the amount; strings are sent as given
+    const itemsAmount = Array.isArray(items)
+      ? resolveItemsAmount(items, amount, shipping, amountCurrency)
+      : amount;
+    const processedAmount =
+      itemsAmount != null ? normalizeAmount(itemsAmount, amountCurrency) : undefined;
+    const processedShipping =
+      shipping != null ? normalizeAmount(shipping, amountCurrency, "shipping") : undefined;
+    const processedItems = Array.isArray(items) ? encodeItems(items, amountCurrency) : items;
+
+    // Typed splits are validated against the amount; strings are sent as given
+    const processedPayout =
+      Array.isArray(payout)
+        ? encodePayout(resolvePayout(payout, processedAmount ?? 0, amountCurrency))
+        : payout;
+
     // Build payload fields (order matters for hash generation)
     const fields = this.create_payload({
       tran_id,
-      amount,
-      items,
-      shipping,
+      amount: processedAmount,
+      items: processedItems,
+      shipping: processedShipping,
       firstname: trim(firstname),
       lastname: trim(lastname),
       email: trim(email),
@@ -251,10 +522,10 @@ export class PayWayClient {
       cancel_url: processedCancelUrl,
       continue_success_url: processedContinueSuccessUrl,
       return_deeplink: processedReturnDeeplink,
-      currency,
+      currency: processedCurrency,
       custom_fields,
       return_params,
-      payout,
+      payout: processedPayout,
       lifetime,
       additional_params,
       google_play_token,
@@ -277,6 +548,265 @@ export class PayWayClient {
     };
   }
 
+  /**
+   * Builds a generate QR (KHQR) payload
+   *
+   * Server-to-server: the response contains a qr_string to display (see
+   * renderQRToSVG) and a deep link for customers paying on the same phone.
+   *
+   * @param params - QR parameters
+   * @returns Payload with fields, hash, and URL
+   *
+   * @example
+   * ```typescript
+   * const payload = client.buildGenerateQRPayload({
+   *   tran_id: "ORDER-123",
+   *   amount: 5,
+   *   lifetime: 15,
+   *   callback_url: "https://mysite.com/payway/callback"
+   * });
+   *
+   * const result = await client.execute(payload) as GenerateQRResponse;
+   * const svg = renderQRToSVG(result.qr_string);
+   * ```
+   */
+  buildGenerateQRPayload(params: GenerateQRParams): PayloadBuilderResponse {
+    const {
+      tran_id,
+      amount,
+      items,
+      first_name,
+      last_name,
+      email,
+      phone,
+      purchase_type = "purchase",
+      payment_option = "abapay_khqr",
+      callback_url,
+      return_deeplink,
+      currency = currencyOf(amount),
+      custom_fields,
+      return_params,
+      payout,
+      lifetime,
+      qr_image_template,
+    } = params;
+
+    // Typed items can supply the amount, and typed splits are checked against it
+    const processedAmount = normalizeAmount(
+      Array.isArray(items) ? resolveItemsAmount(items, amount, undefined, currency) : amount,
+      currency
+    );
+
+    // Build payload fields (order matters for hash generation)
+    const fields = this.create_payload({
+      tran_id,
+      amount: processedAmount,
+      items: Array.isArray(items) ? encodeItems(items, currency) : items,
+      first_name: trim(first_name),
+      last_name: trim(last_name),
+      email: trim(email),
+      phone: trim(phone),
+      purchase_type,
+      payment_option,
+      callback_url:
+        typeof callback_url === "string"
+          ? Buffer.from(callback_url).toString("base64")
+          : callback_url,
+      return_deeplink:
+        return_deeplink != null
+          ? Buffer.from(JSON.stringify(return_deeplink)).toString("base64")
+          : undefined,
+      currency,
+      custom_fields,
+      return_params,
+      payout: Array.isArray(payout)
+        ? encodePayout(resolvePayout(payout, processedAmount, currency))
+        : payout,
+      lifetime,
+      qr_image_template,
+    });
+
+    return {
+      fields,
+      hash: fields.hash,
+      url: `${this.base_url}api/payment-gateway/v1/payments/generate-qr`,
+      method: "POST",
+    };
+  }
+
+  /**
+   * Builds a link card (credentials-on-file) payload
+   *
+   * Like buildTransactionPayload, this is submitted from the browser: the
+   * customer enters card details on the PayWay page once, and PayWay returns
+   * a token (pwt) in the pushback notification for later token purchases.
+   *
+   * @param params - Link card parameters
+   * @returns Payload with fields, hash, and URL for form submission
+   *
+   * @example
+   * ```typescript
+   * const payload = client.buildLinkCardPayload({
+   *   ctid: "CUSTOMER-42",
+   *   return_url: "https://mysite.com/payway/card-linked",
+   *   continue_add_card_success_url: "https://mysite.com/account/cards"
+   * });
+   * ```
+   */
+  buildLinkCardPayload(params: LinkCardParams): PayloadBuilderResponse {
+    const {
+      ctid,
+      return_param,
+      firstname,
+      lastname,
+      email,
+      phone,
+      return_url,
+      continue_add_card_success_url,
+    } = params;
+
+    // Build payload fields (order matters for hash generation)
+    const fields = this.create_payload({
+      ctid,
+      return_param,
+      firstname: trim(firstname),
+      lastname: trim(lastname),
+      email: trim(email),
+      phone: trim(phone),
+      return_url:
+        typeof return_url === "string"
+          ? Buffer.from(return_url).toString("base64")
+          : return_url,
+      continue_add_card_success_url:
+        typeof continue_add_card_success_url === "string"
+          ? Buffer.from(continue_add_card_success_url).toString("base64")
+          : continue_add_card_success_url,
+    });
+
+    return {
+      fields,
+      hash: fields.hash,
+      url: `${this.base_url}api/payment-gateway/v1/cof/initial`,
+      method: "POST",
+    };
+  }
+
+  /**
+   * Builds a link ABA account (account-on-file) payload
+   *
+   * Server-to-server: the response contains a KHQR string and deep link the
+   * customer uses to approve the link in ABA Mobile.
+   *
+   * @param params - Link account parameters
+   * @returns Payload with fields, hash, and URL
+   *
+   * @example
+   * ```typescript
+   * const payload = client.buildLinkAccountPayload({ ctid: "CUSTOMER-42" });
+   * const result = await client.execute(payload) as LinkAccountResponse;
+   * console.log(result.qr_string);
+   * ```
+   */
+  buildLinkAccountPayload(params: LinkAccountParams): PayloadBuilderResponse {
+    const { ctid, return_param, return_url, return_deeplink } = params;
+
+    const fields = this.create_payload({
+      ctid,
+      return_param,
+      return_url:
+        typeof return_url === "string"
+          ? Buffer.from(return_url).toString("base64")
+          : return_url,
+      return_deeplink:
+        return_deeplink != null
+          ? Buffer.from(JSON.stringify(return_deeplink)).toString("base64")
+          : undefined,
+    });
+
+    return {
+      fields,
+      hash: fields.hash,
+      url: `${this.base_url}api/aof/request-qr`,
+      method: "POST",
+    };
+  }
+
+  /**
+   * Builds a query linked tokens payload
+   *
+   * @param params - Consumer to list tokens for
+   * @returns Payload with fields, hash, and URL
+   */
+  buildListTokensPayload(params: ListTokensParams): PayloadBuilderResponse {
+    const fields = this.create_payload({ ctid: params.ctid });
+
+    return {
+      fields,
+      hash: fields.hash,
+      url: `${this.base_url}api/payment-gateway/v1/cof/list`,
+      method: "POST",
+    };
+  }
+
+  /**
+   * Builds a remove linked token payload
+   *
+   * @param params - Consumer and token to remove
+   * @returns Payload with fields, hash, and URL
+   */
+  buildRemoveTokenPayload(params: RemoveTokenParams): PayloadBuilderResponse {
+    const { ctid, pwt } = params;
+    const fields = this.create_payload({ ctid, pwt });
+
+    return {
+      fields,
+      hash: fields.hash,
+      url: `${this.base_url}api/payment-gateway/v1/cof/remove`,
+      method: "POST",
+    };
+  }
+
+  /**
+   * Builds a token purchase payload
+   *
+   * Charges a stored card or account without a redirect. The token is sent
+   * encrypted in merchant_auth, like pre-auth completion.
+   *
+   * @param params - Token purchase parameters
+   * @returns Payload with fields, hash, and URL
+   *
+   * @example
+   * ```typescript
+   * const payload = client.buildTokenPurchasePayload({
+   *   tran_id: "SUB-2024-06",
+   *   ctid: "CUSTOMER-42",
+   *   pwt: storedToken,
+   *   amount: 9.99
+   * });
+   *
+   * const result = await client.execute(payload) as TokenPurchaseResponse;
+   * console.log(result.transaction_status); // "APPROVED"
+   * ```
+   */
+  buildTokenPurchasePayload(params: TokenPurchaseParams): PayloadBuilderResponse {
+    const { tran_id, ctid, pwt, amount, return_params } = params;
+    const currency = params.currency ?? (isMoney(amount) ? amount.currency : undefined);
+
+    // Hash: merchant_auth + request_time + merchant_id
+    return this.create_encrypted_payload(
+      {
+        mc_id: this.merchant_id,
+        tran_id,
+        ctid,
+        pwt,
+        amount: normalizeAmount(amount, currency ?? "USD"),
+        currency,
+        return_params,
+      },
+      "api/payment-gateway/v1/cof/purchase"
+    );
+  }
+
   /**
    * Builds a check transaction payload
    *
@@ -324,9 +854,13 @@ export class PayWayClient {
    * @example
    * ```typescript
    * const payload = client.buildTransactionListPayload({
-   *   from_date: "20240101000000",
-   *   to_date: "20240131235959",
-   *   status: "APPROVED"
+   *   from_date: new Date("2024-01-01T00:00:00+07:00"), // or "20240101000000"
+   *   to_date: new Date("2024-01-31T23:59:59+07:00"),
+   *   status: ["APPROVED", "REFUNDED"],
+   *   payment_option: "abapay_khqr",
+   *   currency: "USD",
+   *   page: 1,
+   *   page_size: 50
    * });
    *
    * // Make server-to-server request
@@ -345,20 +879,81 @@ export class PayWayClient {
   buildTransactionListPayload(
     params: TransactionListParams = {}
   ): PayloadBuilderResponse {
-    const { from_date, to_date, from_amount, to_amount, status } = params;
+    const fields = this.create_payload(serializeTransactionListFilter(params));
+
+    return {
+      fields,
+      hash: fields.hash,
+      url: `${this.base_url}api/payment-gateway/v1/payments/transaction-list`,
+      method: "POST",
+    };
+  }
+
+  /**
+   * Builds a settlement report payload
+   *
+   * Lists the transactions settled to the merchant account in a period,
+   * with the fee deducted from each.
+   *
+   * @param params - Settlement period and paging
+   * @returns Payload with fields, hash, and URL
+   *
+   * @example
+   * ```typescript
+   * const payload = client.buildSettlementReportPayload({
+   *   date_range: dayRange(new Date("2024-01-16T12:00:00+07:00"))
+   * });
+   * ```
+   */
+  buildSettlementReportPayload(params: SettlementReportParams): PayloadBuilderResponse {
+    const { date_range, page, page_size } = params;
+    const fields = this.create_payload({
+      from_date: formatPayWayDate(date_range.from),
+      to_date: formatPayWayDate(date_range.to),
+      page,
+      pagination: page_size,
+    });
 
+    return {
+      fields,
+      hash: fields.hash,
+      url: `${this.base_url}api/payment-gateway/v1/settlement/list`,
+      method: "POST",
+    };
+  }
+
+  /**
+   * Builds a payout statement payload
+   *
+   * Lists the funds sent to payout beneficiaries (see CompletePreAuthWithPayoutParams.payout)
+   * in a period, optionally for one account or transaction.
+   *
+   * @param params - Payout period, filters and paging
+   * @returns Payload with fields, hash, and URL
+   *
+   * @example
+   * ```typescript
+   * const payload = client.buildPayoutStatementPayload({
+   *   date_range: monthRange(new Date("2024-01-15T00:00:00+07:00")),
+   *   acc: "000133879"
+   * });
+   * ```
+   */
+  buildPayoutStatementPayload(params: PayoutStatementParams): PayloadBuilderResponse {
+    const { date_range, acc, tran_id, page, page_size } = params;
     const fields = this.create_payload({
-      from_date,
-      to_date,
-      from_amount,
-      to_amount,
-      status,
+      from_date: formatPayWayDate(date_range.from),
+      to_date: formatPayWayDate(date_range.to),
+      acc,
+      tran_id,
+      page,
+      pagination: page_size,
     });
 
     return {
       fields,
       hash: fields.hash,
-      url: `${this.base_url}api/payment-gateway/v1/payments/transaction-list`,
+      url: `${this.base_url}api/payment-gateway/v1/payout/list`,
       method: "POST",
     };
   }
@@ -370,9 +965,12 @@ export class PayWayClient {
    * The pre-auth must be in valid state (not expired or already completed).
    * 
    * For card payments: You can complete with up to 10% more than the original amount.
+   * Pass authorized_amount to have this checked before the request is sent.
    * 
    * @param params - Complete pre-auth parameters
    * @returns Payload with fields, hash, and URL
+   * @throws {PayWayConfigError} With code "INVALID_AMOUNT" for an over-precise amount, or
+   *   "COMPLETE_AMOUNT_TOO_HIGH" if complete_amount exceeds authorized_amount by more than 10%
    * 
    * @example
    * ```typescript
@@ -385,7 +983,8 @@ export class PayWayClient {
    * // Complete with increased amount (+10% allowed for cards)
    * const payload = client.buildCompletePreAuthPayload({
    *   tran_id: "ORDER-123",
-   *   complete_amount: 110  // Original was 100, can add up to 10%
+   *   complete_amount: 110,   // Original was 100, can add up to 10%
+   *   authorized_amount: 100  // Optional: rejects anything above 110
    * });
    * 
    * // Execute the completion
@@ -394,38 +993,14 @@ export class PayWayClient {
    * ```
    */
   buildCompletePreAuthPayload(params: CompletePreAuthParams): PayloadBuilderResponse {
-    const { tran_id, complete_amount } = params;
-    
-    // Prepare data to be encrypted
-    const dataToEncrypt = {
-      mc_id: this.merchant_id,
-      tran_id: tran_id,
-      complete_amount: complete_amount,
-    };
-    
-    // Encrypt the data with RSA public key
-    const merchant_auth = this.encryptWithRSA(dataToEncrypt);
-    
-    // Create request time
-    const request_time = format(new Date(), "yyyyMMddHHmmss");
-    
-    // Create HMAC hash: merchant_auth + request_time + merchant_id
-    const hash = this.create_hash([merchant_auth, request_time, this.merchant_id]);
-    
-    // Build fields
-    const fields: Record<string, string> = {
-      merchant_auth,
-      request_time,
-      merchant_id: this.merchant_id,
-      hash,
-    };
-    
-    return {
-      fields,
-      hash,
-      url: `${this.base_url}api/merchant-portal/merchant-access/online-transaction/pre-auth-completion`,
-      method: "POST",
-    };
+    const { tran_id } = params;
+    const { complete_amount } = this.preAuthCompleteAmount(params);
+
+    // Hash: merchant_auth + request_time + merchant_id
+    return this.create_encrypted_payload(
+      { mc_id: this.merchant_id, tran_id, complete_amount },
+      "api/merchant-portal/merchant-access/online-transaction/pre-auth-completion"
+    );
   }
 
   /**
@@ -452,39 +1027,15 @@ export class PayWayClient {
    * ```
    */
   buildCompletePreAuthWithPayoutPayload(params: CompletePreAuthWithPayoutParams): PayloadBuilderResponse {
-    const { tran_id, complete_amount, payout } = params;
-    
-    // Prepare data to be encrypted
-    const dataToEncrypt = {
-      mc_id: this.merchant_id,
-      tran_id: tran_id,
-      complete_amount: complete_amount,
-      payout: payout,
-    };
-    
-    // Encrypt the data with RSA public key
-    const merchant_auth = this.encryptWithRSA(dataToEncrypt);
-    
-    // Create request time
-    const request_time = format(new Date(), "yyyyMMddHHmmss");
-    
-    // Create HMAC hash: merchant_auth + request_time + merchant_id
-    const hash = this.create_hash([merchant_auth, request_time, this.merchant_id]);
-    
-    // Build fields
-    const fields: Record<string, string> = {
-      merchant_auth,
-      request_time,
-      merchant_id: this.merchant_id,
-      hash,
-    };
-    
-    return {
-      fields,
-      hash,
-      url: `${this.base_url}api/merchant-portal/merchant-access/online-transaction/pre-auth-completion-with-payout`,
-      method: "POST",
-    };
+    const { tran_id } = params;
+    const { complete_amount, currency } = this.preAuthCompleteAmount(params);
+    const payout = resolvePayout(params.payout, complete_amount, currency);
+
+    // Hash: merchant_auth + request_time + merchant_id
+    return this.create_encrypted_payload(
+      { mc_id: this.merchant_id, tran_id, complete_amount, payout },
+      "api/merchant-portal/merchant-access/online-transaction/pre-auth-completion-with-payout"
+    );
   }
 
   /**
@@ -508,34 +1059,205 @@ export class PayWayClient {
    */
   buildCancelPreAuthPayload(params: CancelPreAuthParams): PayloadBuilderResponse {
     const { tran_id } = params;
-    
-    // Prepare data to be encrypted
-    const dataToEncrypt = {
-      mc_id: this.merchant_id,
-      tran_id: tran_id,
+
+    // Hash: merchant_auth + request_time + merchant_id
+    return this.create_encrypted_payload(
+      { mc_id: this.merchant_id, tran_id },
+      "api/merchant-portal/merchant-access/online-transaction/pre-auth-cancellation"
+    );
+  }
+
+  /**
+   * Builds a refund transaction payload
+   * 
+   * Use this to return funds to the payer for a completed transaction.
+   * Omit refund_amount for a full refund, or pass a smaller amount for a partial refund.
+   * 
+   * @param params - Refund parameters
+   * @returns Payload with fields, hash, and URL
+   * 
+   * @example
+   * ```typescript
+   * // Full refund
+   * const payload = client.buildRefundPayload({
+   *   tran_id: "ORDER-123"
+   * });
+   * 
+   * // Partial refund
+   * const payload = client.buildRefundPayload({
+   *   tran_id: "ORDER-123",
+   *   refund_amount: 25
+   * });
+   * 
+   * const result = await client.execute(payload) as RefundResponse;
+   * console.log('Status:', result.transaction_status); // "REFUNDED"
+   * ```
+   */
+  buildRefundPayload(params: RefundParams): PayloadBuilderResponse {
+    const { tran_id, refund_amount } = params;
+    const currency = params.currency ?? currencyOf(refund_amount);
+
+    // refund_amount is omitted for full refunds
+    // Hash: request_time + merchant_id + merchant_auth
+    return this.create_encrypted_payload(
+      {
+        mc_id: this.merchant_id,
+        tran_id,
+        refund_amount:
+          refund_amount != null ? normalizeAmount(refund_amount, currency, "refund_amount") : undefined,
+      },
+      "api/merchant-portal/merchant-access/online-transaction/refund",
+      "time_first"
+    );
+  }
+
+  /**
+   * Serializes payment link fields (order matters for hash generation)
+   * @param params - Create or update parameters
+   * @returns Body fields for create_payload
+   * @private
+   */
+  private paymentLinkFields(
+    params: Partial<CreatePaymentLinkParams>
+  ): Record<string, any> {
+    const {
+      title,
+      amount,
+      currency,
+      description,
+      payment_limit,
+      expired_date,
+      return_url,
+      merchant_ref_no,
+    } = params;
+
+    return {
+      title: trim(title),
+      amount,
+      currency,
+      description: trim(description),
+      payment_limit,
+      // PayWay expects a Unix timestamp in seconds
+      expired_date:
+        expired_date instanceof Date
+          ? Math.floor(expired_date.getTime() / 1000)
+          : expired_date,
+      return_url:
+        typeof return_url === "string"
+          ? Buffer.from(return_url).toString("base64")
+          : return_url,
+      merchant_ref_no: trim(merchant_ref_no),
     };
-    
-    // Encrypt the data with RSA public key
-    const merchant_auth = this.encryptWithRSA(dataToEncrypt);
-    
-    // Create request time
-    const request_time = format(new Date(), "yyyyMMddHHmmss");
-    
-    // Create HMAC hash: merchant_auth + request_time + merchant_id
-    const hash = this.create_hash([merchant_auth, request_time, this.merchant_id]);
-    
-    // Build fields
-    const fields: Record<string, string> = {
-      merchant_auth,
-      request_time,
-      merchant_id: this.merchant_id,
-      hash,
+  }
+
+  /**
+   * Builds a create payment link payload
+   * 
+   * Payment links are shareable, reusable checkout URLs (e.g., for invoices
+   * sent over chat). The optional image is uploaded as a file and is not
+   * part of the hash.
+   * 
+   * @param params - Payment link parameters
+   * @returns Payload with fields, hash, URL and optional image file
+   * 
+   * @example
+   * ```typescript
+   * const payload = client.buildCreatePaymentLinkPayload({
+   *   title: "Invoice #1001",
+   *   amount: 25,
+   *   currency: "USD",
+   *   payment_limit: 1,
+   *   expired_date: new Date("2024-12-31T23:59:59+07:00"),
+   *   image: { content: logoBytes, filename: "logo.png", contentType: "image/png" }
+   * });
+   * 
+   * const result = await client.execute(payload) as PaymentLinkResponse;
+   * console.log(result.data.payment_link);
+   * ```
+   */
+  buildCreatePaymentLinkPayload(params: CreatePaymentLinkParams): PayloadBuilderResponse {
+    const fields = this.create_payload(this.paymentLinkFields(params));
+
+    return {
+      fields,
+      hash: fields.hash,
+      url: `${this.base_url}api/merchant-portal/merchant-access/payment-link/create`,
+      method: "POST",
+      ...(params.image != null && { files: { image: params.image } }),
     };
-    
+  }
+
+  /**
+   * Builds a get payment link payload
+   * 
+   * @param params - Payment link ID
+   * @returns Payload with fields, hash, and URL
+   */
+  buildGetPaymentLinkPayload(params: PaymentLinkIdParams): PayloadBuilderResponse {
+    const fields = this.create_payload({ id: params.id });
+
     return {
       fields,
-      hash,
-      url: `${this.base_url}api/merchant-portal/merchant-access/online-transaction/pre-auth-cancellation`,
+      hash: fields.hash,
+      url: `${this.base_url}api/merchant-portal/merchant-access/payment-link/detail`,
+      method: "POST",
+    };
+  }
+
+  /**
+   * Builds a list payment links payload
+   * 
+   * @param params - Filter and paging parameters
+   * @returns Payload with fields, hash, and URL
+   */
+  buildListPaymentLinksPayload(params: ListPaymentLinksParams = {}): PayloadBuilderResponse {
+    const { status, page, page_size } = params;
+    const fields = this.create_payload({ status, page, page_size });
+
+    return {
+      fields,
+      hash: fields.hash,
+      url: `${this.base_url}api/merchant-portal/merchant-access/payment-link/list`,
+      method: "POST",
+    };
+  }
+
+  /**
+   * Builds an update payment link payload
+   * 
+   * Only the provided fields are sent. Pass an image to replace the current one.
+   * 
+   * @param params - Payment link ID and fields to change
+   * @returns Payload with fields, hash, URL and optional image file
+   */
+  buildUpdatePaymentLinkPayload(params: UpdatePaymentLinkParams): PayloadBuilderResponse {
+    const { id, ...changes } = params;
+    const fields = this.create_payload({ id, ...this.paymentLinkFields(changes) });
+
+    return {
+      fields,
+      hash: fields.hash,
+      url: `${this.base_url}api/merchant-portal/merchant-access/payment-link/update`,
+      method: "POST",
+      ...(changes.image != null && { files: { image: changes.image } }),
+    };
+  }
+
+  /**
+   * Builds a deactivate payment link payload
+   * 
+   * A deactivated link stops accepting payments.
+   * 
+   * @param params - Payment link ID
+   * @returns Payload with fields, hash, and URL
+   */
+  buildDeactivatePaymentLinkPayload(params: PaymentLinkIdParams): PayloadBuilderResponse {
+    const fields = this.create_payload({ id: params.id, status: "INACTIVE" });
+
+    return {
+      fields,
+      hash: fields.hash,
+      url: `${this.base_url}api/merchant-portal/merchant-access/payment-link/update-status`,
       method: "POST",
     };
   }
@@ -550,13 +1272,16 @@ export class PayWayClient {
    * form submission instead, as it returns HTML. This method will throw an error
    * if you try to execute with payment_option "abapay" (unless allowHtml is true).
    *
-   * @param payload - Payload from any build method
+   * @param payload - Payload from any build method, or a function that builds it
+   *   (required for retries, so every attempt is re-signed)
    * @param options - Execution options
    * @returns JSON response from ABA PayWay API
    *
    * @throws {PayWayAPIError} If HTTP request fails - includes status, statusText, and response body
-   * @throws {Error} If payment_option is "abapay" and allowHtml is false
-   * @throws {Error} If response is HTML and allowHtml is false
+   * @throws {PayWayResponseError} If the response reports a non-"00" status.code or has an unexpected shape
+   * @throws {PayWayNetworkError} If the request fails before a response is received, times out or is aborted
+   * @throws {PayWayConfigError} If payment_option is "abapay" and allowHtml is false
+   * @throws {PayWayUnexpectedContentError} If response is HTML (or not JSON) and allowHtml is false
    *
    * @example
    * ```typescript
@@ -574,31 +1299,127 @@ export class PayWayClient {
    *       complete_amount: 100
    *     })
    *   );
-   * } catch (error: any) {
-   *   console.error('Error:', error.message);
-   *   console.error('Status:', error.status);
-   *   console.error('Details:', error.body);
+   * } catch (error) {
+   *   if (error instanceof PayWayAPIError) {
+   *     console.error('Status:', error.status);
+   *     console.error('Details:', error.body);
+   *   }
    * }
    *
    * // Get transaction list
    * const transactions = await client.execute(
    *   client.buildTransactionListPayload({ status: 'APPROVED' })
    * );
+   *
+   * // With a timeout, the caller's abort signal and a custom fetch
+   * const result = await client.execute(payload, {
+   *   timeoutMs: 10_000,
+   *   signal: request.signal,
+   *   fetch: undiciFetch
+   * });
+   *
+   * // Retry transient failures (payload is rebuilt and re-signed per attempt)
+   * const status = await client.execute(
+   *   () => client.buildCheckTransactionPayload('ORDER-123'),
+   *   { retry: { maxAttempts: 5 } }
+   * );
    * ```
    */
   async execute(
-    payload: PayloadBuilderResponse,
+    payload: PayloadBuilderResponse | (() => PayloadBuilderResponse),
     options: ExecuteOptions = {}
-  ): Promise<ReturnType | PaywayPaymentStatusCheckResponse | string> {
-    const { allowHtml = false } = options;
+  ): Promise<ExecuteResult> {
+    const build = typeof payload === "function" ? payload : () => payload;
+    let current = build();
+    const retry = this.resolveRetryPolicy(current.url, typeof payload === "function", options);
+    const maxAttempts = retry
+      ? Math.max(1, retry.maxAttempts ?? DEFAULT_RETRY_OPTIONS.maxAttempts)
+      : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.send(current, options);
+      } catch (error) {
+        if (!retry || attempt >= maxAttempts || !isRetryableError(error)) {
+          throw error;
+        }
+
+        const delayMs = computeBackoff(attempt, retry);
+        retry.onRetry?.(error, attempt, delayMs);
+        try {
+          await sleep(delayMs, options.signal);
+        } catch (cause) {
+          throw new PayWayNetworkError("PayWay request was aborted", {
+            code: "ABORTED",
+            url: current.url,
+            cause,
+          });
+        }
+
+        // Re-sign every attempt so req_time is never stale
+        current = build();
+      }
+    }
+  }
+
+  /**
+   * Picks the retry policy for a call
+   * 
+   * A per-call policy always wins (explicit opt-in). The client's default
+   * policy only applies to read-only operations built by a builder function.
+   * 
+   * @param url - Request URL
+   * @param canResign - Whether the payload can be rebuilt for each attempt
+   * @param options - Execution options
+   * @returns Retry policy, or undefined for a single attempt
+   * @private
+   */
+  private resolveRetryPolicy(
+    url: string,
+    canResign: boolean,
+    options: ExecuteOptions
+  ): RetryOptions | undefined {
+    if (options.retry === false) return undefined;
+
+    if (options.retry) {
+      const maxAttempts = options.retry.maxAttempts ?? DEFAULT_RETRY_OPTIONS.maxAttempts;
+      if (!canResign && maxAttempts > 1) {
+        throw new PayWayConfigError(
+          "Retries require a payload builder function so each attempt is re-signed. " +
+            "Pass () => client.buildCheckTransactionPayload(...) instead of a built payload.",
+          { code: "RETRY_REQUIRES_BUILDER", url }
+        );
+      }
+      return options.retry;
+    }
+
+    if (this.transport.retry && canResign && isSafeOperation(url)) {
+      return this.transport.retry;
+    }
+    return undefined;
+  }
+
+  /**
+   * Sends a single signed payload
+   * @param payload - Payload from any build method
+   * @param options - Execution options
+   * @returns Parsed response
+   * @private
+   */
+  private async send(
+    payload: PayloadBuilderResponse,
+    options: ExecuteOptions
+  ): Promise<ExecuteResult> {
+    const { allowHtml = false, validateResponse = true } = options;
 
     // Validation: Prevent accidental abapay server-to-server calls
     if (payload.fields.payment_option === "abapay" && !allowHtml) {
-      throw new Error(
+      throw new PayWayConfigError(
         'Cannot execute server-to-server call with payment_option "abapay". ' +
           "ABA PayWay returns HTML for abapay which should be displayed via client-side form submission. " +
           "Use buildTransactionPayload() and create a form in the browser instead. " +
-          "If you really need to get the HTML on the server, pass { allowHtml: true }."
+          "If you really need to get the HTML on the server, pass { allowHtml: true }.",
+        { code: "ABAPAY_NOT_EXECUTABLE", url: payload.url }
       );
     }
 
@@ -607,13 +1428,93 @@ export class PayWayClient {
     for (const [key, value] of Object.entries(payload.fields)) {
       formData.append(key, value);
     }
+    for (const [key, file] of Object.entries(payload.files ?? {})) {
+      const blob =
+        file.content instanceof Blob
+          ? file.content
+          : new Blob([new Uint8Array(file.content)], { type: file.contentType });
+      formData.append(key, blob, file.filename);
+    }
 
-    // Make request to ABA PayWay
-    const response = await fetch(payload.url, {
-      method: payload.method,
-      body: formData,
-    });
+    const fetchImpl = options.fetch ?? this.transport.fetch ?? globalThis.fetch;
+    const timeoutMs = options.timeoutMs ?? this.transport.timeoutMs;
+    const headers = { ...this.transport.headers, ...options.headers };
+    const { signal } = options;
+
+    // Combine the caller's signal and the timeout into one signal
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort(signal?.reason);
+    const abortError = (cause?: unknown) =>
+      timedOut
+        ? new PayWayNetworkError(
+            `PayWay request timed out after ${timeoutMs}ms`,
+            { code: "TIMEOUT", url: payload.url, cause }
+          )
+        : new PayWayNetworkError("PayWay request was aborted", {
+            code: "ABORTED",
+            url: payload.url,
+            cause: cause ?? signal?.reason,
+          });
+
+    if (signal?.aborted) {
+      throw abortError();
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer =
+      timeoutMs != null
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : undefined;
+
+    try {
+      // Make request to ABA PayWay
+      let response: Response;
+      try {
+        response = await fetchImpl(payload.url, {
+          method: payload.method,
+          body: formData,
+          headers,
+          signal: controller.signal,
+        });
+      } catch (cause) {
+        if (controller.signal.aborted) throw abortError(cause);
+        throw new PayWayNetworkError(
+          `PayWay network error: ${cause instanceof Error ? cause.message : String(cause)}`,
+          { code: "NETWORK_ERROR", url: payload.url, cause }
+        );
+      }
+
+      return await this.parseResponse(response, payload, allowHtml, validateResponse);
+    } catch (error) {
+      // Body reads can also be interrupted by the timeout or the caller's signal
+      if (controller.signal.aborted && !(error instanceof PayWayError)) {
+        throw abortError(error);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
 
+  /**
+   * Converts a PayWay HTTP response into a parsed body or a typed error
+   * @param response - Response returned by fetch
+   * @param payload - Payload that was sent
+   * @param allowHtml - Whether HTML responses are allowed
+   * @param validateResponse - Whether JSON responses are validated
+   * @returns Parsed JSON body, or HTML when allowed
+   * @private
+   */
+  private async parseResponse(
+    response: Response,
+    payload: PayloadBuilderResponse,
+    allowHtml: boolean,
+    validateResponse: boolean
+  ): Promise<ExecuteResult> {
     if (!response.ok) {
       // Try to get error details from response body
       let errorBody: any;
@@ -628,15 +1529,16 @@ export class PayWayClient {
         errorBody = null;
       }
 
-      // Create detailed error message
-      const error: any = new Error(
-        `PayWay API Error: ${response.status} ${response.statusText}`
+      throw new PayWayAPIError(
+        `PayWay API Error: ${response.status} ${response.statusText}`,
+        {
+          code: `HTTP_${response.status}`,
+          status: response.status,
+          statusText: response.statusText,
+          body: errorBody,
+          url: payload.url,
+        }
       );
-      error.status = response.status;
-      error.statusText = response.statusText;
-      error.body = errorBody;
-      
-      throw error;
     }
 
     // Parse response based on Content-Type
@@ -644,31 +1546,549 @@ export class PayWayClient {
 
     if (contentType.includes("application/json")) {
       // Expected: JSON response
-      return await response.json() as ReturnType;
+      const body = await response.json();
+      if (validateResponse) validatePayWayResponse(payload.url, body);
+      return body as ReturnType;
     } else if (contentType.includes("text/html")) {
       // HTML response (likely abapay or error page)
       if (!allowHtml) {
-        throw new Error(
+        throw new PayWayUnexpectedContentError(
           "Received HTML response but expected JSON. " +
             'This usually means payment_option "abapay" was used, which returns an HTML checkout page. ' +
             "Use client-side form submission for abapay payments. " +
-            "If you intentionally want the HTML, pass { allowHtml: true }."
+            "If you intentionally want the HTML, pass { allowHtml: true }.",
+          {
+            code: "UNEXPECTED_HTML",
+            status: response.status,
+            body: await response.text(),
+            url: payload.url,
+            contentType,
+          }
         );
       }
       return await response.text();
     } else {
       // Unknown content type - try JSON first, then text
+      let body: unknown;
       try {
-        return await response.json() as ReturnType;
+        body = await response.json();
       } catch {
         if (!allowHtml) {
-          throw new Error(
+          throw new PayWayUnexpectedContentError(
             `Unexpected content-type: ${contentType}. ` +
-              "Response is not JSON and allowHtml is false."
+              "Response is not JSON and allowHtml is false.",
+            {
+              code: "UNEXPECTED_CONTENT_TYPE",
+              status: response.status,
+              url: payload.url,
+              contentType,
+            }
           );
         }
         return await response.text();
       }
+      if (validateResponse) validatePayWayResponse(payload.url, body);
+      return body as ReturnType;
+    }
+  }
+
+  /**
+   * Creates a transaction server-to-server
+   *
+   * Builds the payload with buildTransactionPayload() and executes it.
+   * Use this for payment options that return JSON (e.g., "abapay_khqr", "abapay_deeplink").
+   *
+   * @param params - Transaction parameters
+   * @param options - Execution options
+   * @returns Typed purchase response with QR string and deeplink
+   *
+   * @example
+   * ```typescript
+   * const result = await client.createTransaction({
+   *   tran_id: "ORDER-123",
+   *   amount: 100,
+   *   payment_option: "abapay_khqr"
+   * });
+   * console.log(result.qr_string);
+   * ```
+   */
+  async createTransaction(
+    params: CreateTransactionParams,
+    options: ExecuteOptions = {}
+  ): Promise<ReturnType> {
+    return (await this.execute(
+      () => this.buildTransactionPayload(params),
+      options
+    )) as ReturnType;
+  }
+
+  /**
+   * Checks the status of a transaction
+   *
+   * Gateways that still answer in the legacy format return a
+   * PaywayPaymentStatusCheckResponse (numeric status) instead. Use
+   * getPaymentStatus() to read the status from either format.
+   *
+   * @param tran_id - Transaction ID to check
+   * @param options - Execution options
+   * @returns Typed check-transaction response
+   *
+   * @example
+   * ```typescript
+   * const result = await client.checkTransaction("ORDER-123");
+   * console.log(result.data?.payment_status); // "APPROVED"
+   * console.log(getPaymentStatus(result));    // "APPROVED" (either format)
+   * ```
+   */
+  async checkTransaction(
+    tran_id: string,
+    options: ExecuteOptions = {}
+  ): Promise<CheckTransactionResponse> {
+    return (await this.execute(
+      () => this.buildCheckTransactionPayload(tran_id),
+      options
+    )) as CheckTransactionResponse;
+  }
+
+  /**
+   * Watches a transaction and yields every status change
+   *
+   * Useful for streaming progress to the browser (e.g., over SSE) while the
+   * customer pays with KHQR or a deep link.
+   *
+   * @param tran_id - Transaction ID to watch
+   * @param options - Polling options
+   * @returns Async iterator of status updates; the last one has final: true
+   *
+   * @example
+   * ```typescript
+   * for await (const update of client.watchTransaction("ORDER-123", { lifetime: 15 })) {
+   *   res.write(`data: ${JSON.stringify({ status: update.status })}\n\n`);
+   * }
+   * res.end();
+   * ```
+   */
+  watchTransaction(
+    tran_id: string,
+    options: WaitForTransactionOptions = {}
+  ): AsyncGenerator<TransactionStatusUpdate> {
+    return pollTransaction(this, tran_id, options);
+  }
+
+  /**
+   * Polls a transaction until it is approved, declined, cancelled or expired
+   *
+   * @param tran_id - Transaction ID to wait for
+   * @param options - Polling options
+   * @returns Final status update
+   * @throws {PayWayNetworkError} With code "TIMEOUT" after timeoutMs, or "ABORTED" when the signal aborts
+   *
+   * @example
+   * ```typescript
+   * const { qr_string } = await client.generateQR({ tran_id: "ORDER-123", amount: 5, lifetime: 15 });
+   * showQR(qr_string);
+   *
+   * const result = await client.waitForTransaction("ORDER-123", { lifetime: 15 });
+   * if (result.status === "APPROVED") await markOrderPaid("ORDER-123");
+   * ```
+   */
+  async waitForTransaction(
+    tran_id: string,
+    options: WaitForTransactionOptions = {}
+  ): Promise<TransactionStatusUpdate> {
+    let last: TransactionStatusUpdate | undefined;
+    for await (const update of pollTransaction(this, tran_id, options)) {
+      last = update;
     }
+    // pollTransaction always ends with a final update or throws
+    return last as TransactionStatusUpdate;
+  }
+
+  /**
+   * Retrieves a list of transactions
+   *
+   * @param params - Filter parameters
+   * @param options - Execution options
+   * @returns Typed transaction-list response
+   *
+   * @example
+   * ```typescript
+   * const result = await client.listTransactions({ status: "APPROVED" });
+   * for (const transaction of result.data) {
+   *   console.log(transaction.transaction_id, transaction.total_amount);
+   * }
+   * ```
+   */
+  async listTransactions(
+    params: TransactionListParams = {},
+    options: ExecuteOptions = {}
+  ): Promise<TransactionListResponse> {
+    return (await this.execute(
+      () => this.buildTransactionListPayload(params),
+      options
+    )) as TransactionListResponse;
+  }
+
+  /**
+   * Walks every page of the transaction list
+   *
+   * Requests pages one after another (starting at params.page, default 1)
+   * until a page comes back with fewer than page_size records.
+   *
+   * @param params - Filter parameters (page_size defaults to 100)
+   * @param options - Execution options
+   * @returns Async iterator of transaction records
+   *
+   * @example
+   * ```typescript
+   * for await (const transaction of client.iterateTransactions({
+   *   date_range: monthRange(new Date("2024-01-15T00:00:00+07:00")),
+   *   status: "APPROVED"
+   * })) {
+   *   await ledger.record(transaction.transaction_id, transaction.total_amount);
+   * }
+   * ```
+   */
+  async *iterateTransactions(
+    params: TransactionListParams = {},
+    options: ExecuteOptions = {}
+  ): AsyncGenerator<TransactionRecord> {
+    const page_size = params.page_size ?? 100;
+
+    for (let page = params.page ?? 1; ; page++) {
+      const { data } = await this.listTransactions({ ...params, page, page_size }, options);
+      yield* data;
+      if (data.length < page_size) return;
+    }
+  }
+
+  /**
+   * Retrieves the settlement report
+   *
+   * @param params - Settlement period and paging
+   * @param options - Execution options
+   * @returns Typed settlement report
+   *
+   * @example
+   * ```typescript
+   * const { data } = await client.getSettlementReport({ date_range: dayRange(yesterday) });
+   * const credited = data.reduce((sum, record) => sum + record.net_amount, 0);
+   * ```
+   */
+  async getSettlementReport(
+    params: SettlementReportParams,
+    options: ExecuteOptions = {}
+  ): Promise<SettlementReportResponse> {
+    return (await this.execute(
+      () => this.buildSettlementReportPayload(params),
+      options
+    )) as SettlementReportResponse;
+  }
+
+  /**
+   * Retrieves the payout statement
+   *
+   * @param params - Payout period, filters and paging
+   * @param options - Execution options
+   * @returns Typed payout statement
+   *
+   * @example
+   * ```typescript
+   * const { data } = await client.getPayoutStatement({
+   *   date_range: dayRange(yesterday),
+   *   tran_id: "ORDER-123"
+   * });
+   * const result = verifyPayouts(expectedPayout, data);
+   * ```
+   */
+  async getPayoutStatement(
+    params: PayoutStatementParams,
+    options: ExecuteOptions = {}
+  ): Promise<PayoutStatementResponse> {
+    return (await this.execute(
+      () => this.buildPayoutStatementPayload(params),
+      options
+    )) as PayoutStatementResponse;
+  }
+
+  /**
+   * Completes (captures) a pre-authorized transaction
+   *
+   * @param params - Complete pre-auth parameters
+   * @param options - Execution options
+   * @returns Typed pre-auth response
+   *
+   * @example
+   * ```typescript
+   * const result = await client.completePreAuth({
+   *   tran_id: "ORDER-123",
+   *   complete_amount: 100
+   * });
+   * console.log(result.transaction_status); // "COMPLETED"
+   * ```
+   */
+  async completePreAuth(
+    params: CompletePreAuthParams,
+    options: ExecuteOptions = {}
+  ): Promise<PreAuthResponse> {
+    return (await this.execute(
+      () => this.buildCompletePreAuthPayload(params),
+      options
+    )) as PreAuthResponse;
+  }
+
+  /**
+   * Completes a pre-authorized transaction and distributes funds via payout
+   *
+   * @param params - Complete pre-auth with payout parameters
+   * @param options - Execution options
+   * @returns Typed pre-auth response
+   */
+  async completePreAuthWithPayout(
+    params: CompletePreAuthWithPayoutParams,
+    options: ExecuteOptions = {}
+  ): Promise<PreAuthResponse> {
+    return (await this.execute(
+      () => this.buildCompletePreAuthWithPayoutPayload(params),
+      options
+    )) as PreAuthResponse;
+  }
+
+  /**
+   * Cancels a pre-authorized transaction and releases reserved funds
+   *
+   * @param params - Cancel pre-auth parameters
+   * @param options - Execution options
+   * @returns Typed pre-auth response
+   *
+   * @example
+   * ```typescript
+   * const result = await client.cancelPreAuth({ tran_id: "ORDER-123" });
+   * console.log(result.transaction_status); // "CANCELLED"
+   * ```
+   */
+  async cancelPreAuth(
+    params: CancelPreAuthParams,
+    options: ExecuteOptions = {}
+  ): Promise<PreAuthResponse> {
+    return (await this.execute(
+      () => this.buildCancelPreAuthPayload(params),
+      options
+    )) as PreAuthResponse;
+  }
+
+  /**
+   * Refunds a completed transaction (fully or partially)
+   *
+   * @param params - Refund parameters
+   * @param options - Execution options
+   * @returns Typed refund response
+   *
+   * @example
+   * ```typescript
+   * const result = await client.refund({ tran_id: "ORDER-123", refund_amount: 25 });
+   * console.log(result.transaction_status); // "REFUNDED"
+   * ```
+   */
+  async refund(
+    params: RefundParams,
+    options: ExecuteOptions = {}
+  ): Promise<RefundResponse> {
+    return (await this.execute(
+      () => this.buildRefundPayload(params),
+      options
+    )) as RefundResponse;
+  }
+
+  /**
+   * Creates a payment link
+   *
+   * @param params - Payment link parameters
+   * @param options - Execution options
+   * @returns Typed payment link response
+   *
+   * @example
+   * ```typescript
+   * const { data } = await client.createPaymentLink({ title: "Invoice #1001", amount: 25 });
+   * await sendTelegramMessage(chatId, data.payment_link);
+   * ```
+   */
+  async createPaymentLink(
+    params: CreatePaymentLinkParams,
+    options: ExecuteOptions = {}
+  ): Promise<PaymentLinkResponse> {
+    return (await this.execute(
+      () => this.buildCreatePaymentLinkPayload(params),
+      options
+    )) as PaymentLinkResponse;
+  }
+
+  /**
+   * Fetches a payment link
+   *
+   * @param id - Payment link ID
+   * @param options - Execution options
+   * @returns Typed payment link response
+   */
+  async getPaymentLink(
+    id: string,
+    options: ExecuteOptions = {}
+  ): Promise<PaymentLinkResponse> {
+    return (await this.execute(
+      () => this.buildGetPaymentLinkPayload({ id }),
+      options
+    )) as PaymentLinkResponse;
+  }
+
+  /**
+   * Lists payment links
+   *
+   * @param params - Filter and paging parameters
+   * @param options - Execution options
+   * @returns Typed payment link list response
+   */
+  async listPaymentLinks(
+    params: ListPaymentLinksParams = {},
+    options: ExecuteOptions = {}
+  ): Promise<PaymentLinkListResponse> {
+    return (await this.execute(
+      () => this.buildListPaymentLinksPayload(params),
+      options
+    )) as PaymentLinkListResponse;
+  }
+
+  /**
+   * Updates a payment link
+   *
+   * @param params - Payment link ID and fields to change
+   * @param options - Execution options
+   * @returns Typed payment link response
+   */
+  async updatePaymentLink(
+    params: UpdatePaymentLinkParams,
+    options: ExecuteOptions = {}
+  ): Promise<PaymentLinkResponse> {
+    return (await this.execute(
+      () => this.buildUpdatePaymentLinkPayload(params),
+      options
+    )) as PaymentLinkResponse;
+  }
+
+  /**
+   * Deactivates a payment link so it stops accepting payments
+   *
+   * @param id - Payment link ID
+   * @param options - Execution options
+   * @returns Typed payment link response
+   */
+  async deactivatePaymentLink(
+    id: string,
+    options: ExecuteOptions = {}
+  ): Promise<PaymentLinkResponse> {
+    return (await this.execute(
+      () => this.buildDeactivatePaymentLinkPayload({ id }),
+      options
+    )) as PaymentLinkResponse;
+  }
+
+  /**
+   * Requests a KHQR / deep link for the customer to link their ABA account
+   *
+   * @param params - Link account parameters
+   * @param options - Execution options
+   * @returns Typed link account response
+   */
+  async linkAccount(
+    params: LinkAccountParams,
+    options: ExecuteOptions = {}
+  ): Promise<LinkAccountResponse> {
+    return (await this.execute(
+      () => this.buildLinkAccountPayload(params),
+      options
+    )) as LinkAccountResponse;
+  }
+
+  /**
+   * Lists the cards and accounts linked to a consumer
+   *
+   * @param ctid - Consumer token ID
+   * @param options - Execution options
+   * @returns Typed token list response
+   */
+  async listTokens(
+    ctid: string,
+    options: ExecuteOptions = {}
+  ): Promise<ConsumerTokenListResponse> {
+    return (await this.execute(
+      () => this.buildListTokensPayload({ ctid }),
+      options
+    )) as ConsumerTokenListResponse;
+  }
+
+  /**
+   * Removes a linked card or account
+   *
+   * @param params - Consumer and token to remove
+   * @param options - Execution options
+   * @returns Typed remove token response
+   */
+  async removeToken(
+    params: RemoveTokenParams,
+    options: ExecuteOptions = {}
+  ): Promise<RemoveTokenResponse> {
+    return (await this.execute(
+      () => this.buildRemoveTokenPayload(params),
+      options
+    )) as RemoveTokenResponse;
+  }
+
+  /**
+   * Charges a stored card or account without a redirect
+   *
+   * @param params - Token purchase parameters
+   * @param options - Execution options
+   * @returns Typed token purchase response
+   *
+   * @example
+   * ```typescript
+   * const result = await client.purchaseWithToken({
+   *   tran_id: "SUB-2024-06",
+   *   ctid: "CUSTOMER-42",
+   *   pwt: storedToken,
+   *   amount: 9.99
+   * });
+   * ```
+   */
+  async purchaseWithToken(
+    params: TokenPurchaseParams,
+    options: ExecuteOptions = {}
+  ): Promise<TokenPurchaseResponse> {
+    return (await this.execute(
+      () => this.buildTokenPurchasePayload(params),
+      options
+    )) as TokenPurchaseResponse;
+  }
+
+  /**
+   * Generates a KHQR code for a payment
+   *
+   * @param params - QR parameters
+   * @param options - Execution options
+   * @returns Typed generate QR response
+   *
+   * @example
+   * ```typescript
+   * const { qr_string } = await client.generateQR({ tran_id: "ORDER-123", amount: 5 });
+   * console.log(renderQRToASCII(qr_string));
+   * ```
+   */
+  async generateQR(
+    params: GenerateQRParams,
+    options: ExecuteOptions = {}
+  ): Promise<GenerateQRResponse> {
+    return (await this.execute(
+      () => this.buildGenerateQRPayload(params),
+      options
+    )) as GenerateQRResponse;
   }
 }
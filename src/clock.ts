@@ -0,0 +1,159 @@
+import { randomInt } from "node:crypto";
+import { PayWayConfigError } from "./errors.js";
+import type { Clock, GenerateTranIdOptions } from "./types.js";
+
+/**
+ * Time zone ABA PayWay expects request timestamps in (UTC+7, no daylight saving)
+ */
+export const PAYWAY_TIME_ZONE = "Asia/Phnom_Penh";
+
+/**
+ * Offset of PAYWAY_TIME_ZONE from UTC in hours
+ */
+const PAYWAY_UTC_OFFSET_HOURS = 7;
+
+/**
+ * Longest tran_id ABA PayWay accepts
+ */
+export const MAX_TRAN_ID_LENGTH = 20;
+
+/**
+ * Random characters every generated tran_id ends with, at least
+ */
+const MIN_RANDOM_LENGTH = 4;
+
+const TRAN_ID_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+const requestTimeFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: PAYWAY_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hourCycle: "h23",
+});
+
+/**
+ * Clock used when none is configured
+ */
+export const systemClock: Clock = () => new Date();
+
+/**
+ * Clock that always returns the same instant
+ *
+ * @param date - Instant to return (Date or anything new Date() accepts)
+ * @returns Clock for reproducible req_time values and signatures in tests
+ *
+ * @example
+ * ```typescript
+ * const client = new PayWayClient(url, merchantId, apiKey, undefined, {
+ *   clock: fixedClock("2024-01-15T10:30:00+07:00")
+ * });
+ * client.buildTransactionPayload({ tran_id: "ORDER-1", amount: 10 }).fields.req_time;
+ * // "20240115103000"
+ * ```
+ */
+export function fixedClock(date: Date | string | number): Clock {
+  const instant = new Date(date);
+  if (Number.isNaN(instant.getTime())) {
+    throw new PayWayConfigError(`Invalid clock date: ${String(date)}`, { code: "INVALID_CLOCK" });
+  }
+  return () => new Date(instant);
+}
+
+/**
+ * Formats an instant as a PayWay request timestamp in Cambodia time
+ *
+ * Used for req_time and request_time. The result does not depend on the
+ * server's time zone: a server running in UTC still sends Phnom Penh time.
+ *
+ * @param date - Instant to format
+ * @returns yyyyMMddHHmmss in Asia/Phnom_Penh
+ *
+ * @example
+ * ```typescript
+ * formatRequestTime(new Date("2024-01-15T03:30:00Z")); // "20240115103000"
+ * ```
+ */
+export function formatRequestTime(date: Date): string {
+  const parts: Record<string, string> = {};
+  for (const { type, value } of requestTimeFormat.formatToParts(date)) {
+    parts[type] = value;
+  }
+  return `${parts.year}${parts.month}${parts.day}${parts.hour}${parts.minute}${parts.second}`;
+}
+
+/**
+ * Parses a PayWay request timestamp as Cambodia time
+ *
+ * The inverse of formatRequestTime: the value is read as UTC+7 whatever
+ * the server's time zone, so a req_time from a callback maps back to the
+ * instant it was signed at.
+ *
+ * @param value - yyyyMMddHHmmss in Asia/Phnom_Penh
+ * @returns The instant, or an invalid Date if the value is malformed
+ *
+ * @example
+ * ```typescript
+ * parseRequestTime("20240115103000"); // 2024-01-15T03:30:00.000Z
+ * parseRequestTime("2024-01-15");     // Invalid Date
+ * ```
+ */
+export function parseRequestTime(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(value);
+  if (!match) return new Date(NaN);
+
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hour - PAYWAY_UTC_OFFSET_HOURS, minute, second));
+  // Reject values Date.UTC would roll over (e.g. month 13 or hour 24)
+  return formatRequestTime(date) === value ? date : new Date(NaN);
+}
+
+/**
+ * Generates a unique, time-ordered tran_id
+ *
+ * Layout: prefix + time component + random suffix, at most 20 characters
+ * (ABA's limit). The time component is the clock's milliseconds
+ * in base 36 (8 characters), so IDs sort by creation time; the remaining
+ * characters are random (at least 4, from crypto.randomInt), which keeps
+ * IDs generated in the same millisecond apart.
+ *
+ * @param options - Prefix, clock and length
+ * @returns tran_id (e.g., "ORD-LREDA280MW19LIIW")
+ * @throws {PayWayConfigError} With code "INVALID_TRAN_ID_PREFIX" if the prefix has characters
+ *   other than letters, digits, "-" and "_", or leaves room for fewer than 4 random characters
+ *
+ * @example
+ * ```typescript
+ * generateTranId();                   // "LREDA280Q7X9B3M1ZP0D"
+ * generateTranId({ prefix: "ORD-" }); // "ORD-LREDA280MW19LIIW"
+ * generateTranId({ prefix: "ORD-", length: 16 }); // "ORD-LREDA280MW19"
+ * ```
+ */
+export function generateTranId(options: GenerateTranIdOptions = {}): string {
+  const { prefix = "", clock = systemClock, length = MAX_TRAN_ID_LENGTH } = options;
+
+  const time = clock().getTime().toString(36).toUpperCase().padStart(8, "0");
+  const randomLength = Math.min(length, MAX_TRAN_ID_LENGTH) - prefix.length - time.length;
+  if (!/^[A-Za-z0-9_-]*$/.test(prefix)) {
+    throw new PayWayConfigError(
+      `tran_id prefix "${prefix}" may only contain letters, digits, "-" and "_"`,
+      { code: "INVALID_TRAN_ID_PREFIX" }
+    );
+  }
+  if (randomLength < MIN_RANDOM_LENGTH) {
+    throw new PayWayConfigError(
+      `tran_id prefix "${prefix}" is too long: at most ` +
+      `${Math.min(length, MAX_TRAN_ID_LENGTH) - time.length - MIN_RANDOM_LENGTH} characters fit`,
+      { code: "INVALID_TRAN_ID_PREFIX" }
+    );
+  }
+
+  let random = "";
+  for (let i = 0; i < randomLength; i++) {
+    random += TRAN_ID_ALPHABET[randomInt(TRAN_ID_ALPHABET.length)];
+  }
+  return `${prefix}${time}${random}`;
+}
@@ -0,0 +1,108 @@
+import { createPublicKey } from "node:crypto";
+import { PayWayConfigError } from "./errors.js";
+import type { PayWayEnvironment } from "./types.js";
+
+/**
+ * Known ABA PayWay base URLs
+ */
+export const PAYWAY_BASE_URLS = {
+  sandbox: "https://checkout-sandbox.payway.com.kh/",
+  production: "https://checkout.payway.com.kh/",
+} as const;
+
+/**
+ * Ensures a base URL ends with exactly one trailing slash
+ *
+ * Endpoint URLs are built as `${base_url}api/...`, so a missing slash
+ * would silently break every request.
+ *
+ * @param base_url - Base URL as configured
+ * @returns Base URL ending with "/"
+ */
+export function normalizeBaseUrl(base_url: string): string {
+  return base_url.replace(/\/+$/, "") + "/";
+}
+
+/**
+ * Resolves an environment preset or custom base URL
+ * @param environment - "sandbox", "production" or { baseUrl }
+ * @returns Normalized HTTPS base URL
+ * @throws {PayWayConfigError} If the environment is unknown or the URL is not HTTPS
+ */
+export function resolveBaseUrl(environment: PayWayEnvironment): string {
+  if (typeof environment === "string") {
+    // Own keys only, so "constructor" or "toString" are not taken as presets
+    if (!Object.hasOwn(PAYWAY_BASE_URLS, environment)) {
+      throw new PayWayConfigError(
+        `Unknown PayWay environment "${environment}". Use "sandbox", "production" or { baseUrl }.`,
+        { code: "INVALID_ENVIRONMENT" }
+      );
+    }
+    return PAYWAY_BASE_URLS[environment];
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(environment?.baseUrl);
+  } catch {
+    throw new PayWayConfigError(
+      `Invalid PayWay base URL: ${environment?.baseUrl}`,
+      { code: "INVALID_BASE_URL" }
+    );
+  }
+
+  if (parsed.protocol !== "https:") {
+    throw new PayWayConfigError(
+      `PayWay base URL must use HTTPS: ${parsed.origin}`,
+      { code: "INSECURE_BASE_URL", url: parsed.toString() }
+    );
+  }
+
+  return normalizeBaseUrl(parsed.toString());
+}
+
+/**
+ * Checks that a string is a PEM-encoded RSA public key
+ * @param rsa_public_key - Key as provided by ABA Bank
+ * @throws {PayWayConfigError} If the key is not a PEM RSA public key
+ */
+export function assertRsaPublicKey(rsa_public_key: string): void {
+  // createPublicKey() also accepts private keys, so check the PEM label first
+  if (!/-----BEGIN (RSA )?PUBLIC KEY-----/.test(rsa_public_key)) {
+    throw new PayWayConfigError(
+      "RSA public key must be a PEM public key (-----BEGIN PUBLIC KEY-----)",
+      { code: "INVALID_RSA_PUBLIC_KEY" }
+    );
+  }
+
+  let keyType: string | undefined;
+  try {
+    keyType = createPublicKey(rsa_public_key).asymmetricKeyType;
+  } catch (cause) {
+    throw new PayWayConfigError("RSA public key could not be parsed", {
+      code: "INVALID_RSA_PUBLIC_KEY",
+      cause,
+    });
+  }
+
+  if (keyType !== "rsa") {
+    throw new PayWayConfigError(
+      `Expected an RSA public key but got a ${keyType} key`,
+      { code: "INVALID_RSA_PUBLIC_KEY" }
+    );
+  }
+}
+
+/**
+ * Checks that a credential is a non-empty string
+ * @param name - Option name used in the error message
+ * @param value - Value to check
+ * @throws {PayWayConfigError} If the value is missing or blank
+ */
+export function assertCredential(name: string, value: unknown): asserts value is string {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new PayWayConfigError(`${name} is required`, {
+      code: "MISSING_CREDENTIAL",
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import { formatRequestTime } from "./clock.js";
+import type { DateRange } from "./types.js";
+
+/**
+ * Offset of Cambodia time from UTC in milliseconds (UTC+7, no daylight saving)
+ */
+const PAYWAY_UTC_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+/**
+ * Year, month (0-based) and day of an instant in Cambodia time
+ * @private
+ */
+function cambodiaDate(date: Date): [year: number, month: number, day: number] {
+  const formatted = formatRequestTime(date);
+  return [
+    Number(formatted.slice(0, 4)),
+    Number(formatted.slice(4, 6)) - 1,
+    Number(formatted.slice(6, 8)),
+  ];
+}
+
+/**
+ * Instant of midnight in Cambodia time on the given calendar day
+ * @private
+ */
+function cambodiaMidnight(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day) - PAYWAY_UTC_OFFSET_MS);
+}
+
+/**
+ * Formats a date the way PayWay expects (yyyyMMddHHmmss, Cambodia time)
+ *
+ * Like req_time, the result does not depend on the server's time zone.
+ *
+ * @param date - Date object, or a string that is already formatted
+ * @returns Formatted date (strings are returned unchanged)
+ *
+ * @example
+ * ```typescript
+ * formatPayWayDate(new Date("2024-01-15T03:30:00Z")); // "20240115103000"
+ * ```
+ */
+export function formatPayWayDate(date: Date | string): string {
+  return typeof date === "string" ? date : formatRequestTime(date);
+}
+
+/**
+ * Range covering a whole day in Cambodia time (00:00:00 to 23:59:59)
+ * @param date - Any time on the day
+ * @returns Date range for the day
+ */
+export function dayRange(date: Date): DateRange {
+  const [year, month, day] = cambodiaDate(date);
+  return {
+    from: cambodiaMidnight(year, month, day),
+    to: new Date(cambodiaMidnight(year, month, day + 1).getTime() - 1),
+  };
+}
+
+/**
+ * Range covering a whole calendar month in Cambodia time
+ * @param date - Any time in the month
+ * @returns Date range for the month
+ *
+ * @example
+ * ```typescript
+ * // All of January 2024
+ * const transactions = client.iterateTransactions({
+ *   date_range: monthRange(new Date("2024-01-15T00:00:00+07:00"))
+ * });
+ * ```
+ */
+export function monthRange(date: Date): DateRange {
+  const [year, month] = cambodiaDate(date);
+  return {
+    from: cambodiaMidnight(year, month, 1),
+    to: new Date(cambodiaMidnight(year, month + 1, 1).getTime() - 1),
+  };
+}
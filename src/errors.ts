@@ -0,0 +1,308 @@
+/**
+ * Known ABA PayWay status codes
+ *
+ * PayWay returns these as strings ("00", "1", "4", ...). Use toPayWayStatusCode()
+ * to map a raw code to this enum.
+ */
+export enum PayWayStatusCode {
+  Success = 0,
+  InvalidHash = 1,
+  InvalidTransactionId = 2,
+  InvalidAmount = 3,
+  DuplicateTransactionId = 4,
+  InvalidContinueSuccessUrl = 5,
+  InvalidDomain = 6,
+  InvalidReturnParams = 7,
+  InvalidReturnUrl = 8,
+  InvalidMerchantProfile = 9,
+  InvalidEmail = 10,
+  InternalError = 11,
+  PaymentOptionNotEnabled = 12,
+  AmountExceedsLimit = 13,
+  InvalidPayout = 14,
+  InvalidShipping = 15,
+}
+
+/**
+ * Maps a raw PayWay status code to PayWayStatusCode
+ * @param code - Raw code from the response (e.g., "00", "4")
+ * @returns The matching enum member, or undefined for unknown codes
+ */
+export function toPayWayStatusCode(
+  code: string | number | null | undefined
+): PayWayStatusCode | undefined {
+  if (code == null || String(code).trim() === "") return undefined;
+
+  const value = Number(code);
+  return Number.isInteger(value) && value in PayWayStatusCode
+    ? (value as PayWayStatusCode)
+    : undefined;
+}
+
+/**
+ * Query parameters whose values are replaced before a URL is attached to an error
+ */
+const SENSITIVE_PARAMS = [
+  "hash",
+  "api_key",
+  "apikey",
+  "key",
+  "merchant_auth",
+  "token",
+  "secret",
+  "password",
+];
+
+/**
+ * Removes credentials and sensitive query values from a URL
+ *
+ * Error objects end up in logs and error trackers, so never attach raw URLs.
+ *
+ * @param url - URL to redact
+ * @returns URL with user info and sensitive query values replaced by "[REDACTED]"
+ */
+export function redactUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  if (parsed.username || parsed.password) {
+    parsed.username = "REDACTED";
+    parsed.password = "";
+  }
+
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (SENSITIVE_PARAMS.includes(key.toLowerCase())) {
+      parsed.searchParams.set(key, "[REDACTED]");
+    }
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Details shared by every PayWay error
+ */
+export interface PayWayErrorDetails {
+  /**
+   * Machine-readable error code
+   */
+  code: string;
+
+  /**
+   * HTTP status code (when a response was received)
+   */
+  status?: number;
+
+  /**
+   * Response body from ABA PayWay (when a response was received)
+   */
+  body?: any;
+
+  /**
+   * Request URL (redacted before it is stored)
+   */
+  url?: string;
+
+  /**
+   * Underlying error
+   */
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the SDK
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.checkTransaction("ORDER-123");
+ * } catch (error) {
+ *   if (error instanceof PayWayNetworkError) {
+ *     // Retry later
+ *   } else if (error instanceof PayWayError) {
+ *     console.error(error.code, error.status, error.url);
+ *   }
+ * }
+ * ```
+ */
+export class PayWayError extends Error {
+  /**
+   * Machine-readable error code
+   */
+  public readonly code: string;
+
+  /**
+   * HTTP status code (when a response was received)
+   */
+  public readonly status?: number;
+
+  /**
+   * Response body from ABA PayWay (when a response was received)
+   */
+  public readonly body?: any;
+
+  /**
+   * Request URL with credentials and sensitive query values redacted
+   */
+  public readonly url?: string;
+
+  constructor(message: string, details: PayWayErrorDetails) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = new.target.name;
+    this.code = details.code;
+    this.status = details.status;
+    this.body = details.body;
+    this.url = details.url != null ? redactUrl(details.url) : undefined;
+  }
+}
+
+/**
+ * Error thrown when the client is misconfigured or used incorrectly
+ * (e.g., missing RSA public key, executing an "abapay" payload server-to-server)
+ */
+export class PayWayConfigError extends PayWayError {}
+
+/**
+ * A single rule a request parameter broke
+ */
+export interface ValidationIssue {
+  /**
+   * Parameter name (e.g., "tran_id", "email")
+   */
+  field: string;
+
+  /**
+   * Rule that failed (e.g., "required", "max_length", "format")
+   */
+  rule: string;
+
+  /**
+   * Human-readable description
+   */
+  message: string;
+}
+
+/**
+ * Error thrown when request parameters break ABA PayWay's field rules
+ *
+ * Every violation is collected before the error is thrown, so one error
+ * lists all fields that need fixing.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   client.buildTransactionPayload({ tran_id: "ORDER 123", email: "dara@" });
+ * } catch (error) {
+ *   if (error instanceof PayWayValidationError) {
+ *     for (const issue of error.issues) {
+ *       console.error(issue.field, issue.message);
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export class PayWayValidationError extends PayWayConfigError {
+  /**
+   * Every rule that failed, in field order
+   */
+  public readonly issues: ValidationIssue[];
+
+  constructor(message: string, details: PayWayErrorDetails & { issues: ValidationIssue[] }) {
+    super(message, details);
+    this.issues = details.issues;
+  }
+}
+
+/**
+ * Error thrown when PayWay responds with a non-2xx HTTP status
+ */
+export class PayWayAPIError extends PayWayError {
+  /**
+   * HTTP status code (e.g., 403, 500)
+   */
+  declare public readonly status: number;
+
+  /**
+   * HTTP status text (e.g., "Forbidden", "Internal Server Error")
+   */
+  public readonly statusText: string;
+
+  constructor(
+    message: string,
+    details: PayWayErrorDetails & { status: number; statusText: string }
+  ) {
+    super(message, details);
+    this.statusText = details.statusText;
+  }
+}
+
+/**
+ * Error thrown when PayWay responds with content the SDK did not expect
+ * (e.g., an HTML page where JSON was expected)
+ */
+export class PayWayUnexpectedContentError extends PayWayError {
+  /**
+   * Content-Type header of the response
+   */
+  public readonly contentType: string;
+
+  constructor(message: string, details: PayWayErrorDetails & { contentType: string }) {
+    super(message, details);
+    this.contentType = details.contentType;
+  }
+}
+
+/**
+ * Error thrown when the request never got a response
+ * (DNS failure, connection refused, reset, etc.)
+ */
+export class PayWayNetworkError extends PayWayError {}
+
+/**
+ * Error thrown when PayWay answers with HTTP 200 but the body reports a
+ * failure (status.code other than "00") or does not match the expected shape
+ *
+ * `code` holds the raw PayWay status code ("" when the response had none).
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.checkTransaction("ORDER-123");
+ * } catch (error) {
+ *   if (error instanceof PayWayResponseError &&
+ *       error.statusCode === PayWayStatusCode.InvalidTransactionId) {
+ *     // Unknown transaction
+ *   }
+ * }
+ * ```
+ */
+export class PayWayResponseError extends PayWayError {
+  /**
+   * Known status code, or undefined if PayWay returned an unknown code
+   */
+  public readonly statusCode?: PayWayStatusCode;
+
+  /**
+   * Transaction ID the response refers to (when available)
+   */
+  public readonly tran_id?: string;
+
+  /**
+   * Schema violations (empty when PayWay reported a failure code)
+   */
+  public readonly issues: string[];
+
+  constructor(
+    message: string,
+    details: PayWayErrorDetails & { tran_id?: string; issues?: string[] }
+  ) {
+    super(message, details);
+    this.statusCode = toPayWayStatusCode(details.code);
+    this.tran_id = details.tran_id;
+    this.issues = details.issues ?? [];
+  }
+}
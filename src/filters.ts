@@ -0,0 +1,58 @@
+import { formatPayWayDate } from "./dates.js";
+import { currencyOf, normalizeAmount } from "./money.js";
+import type { AmountInput, TransactionListParams } from "./types.js";
+
+/**
+ * Joins multi-value filters with commas (empty arrays are omitted)
+ * @private
+ */
+function joinValues<T extends string>(value: T | T[] | undefined): string | undefined {
+  if (!Array.isArray(value)) return value;
+  return value.length > 0 ? value.join(",") : undefined;
+}
+
+/**
+ * Serializes a transaction list filter into request fields
+ *
+ * The order of the returned keys is the order PayWay hashes them in:
+ * from_date, to_date, from_amount, to_amount, status, payment_option,
+ * currency, page, pagination. Undefined values are dropped by create_payload.
+ * Amounts are checked against the precision of currency (USD when not set).
+ *
+ * @param filter - Transaction list filter
+ * @returns Ordered request fields (before signing)
+ * @throws {PayWayConfigError} With code "INVALID_AMOUNT" for a negative or over-precise amount
+ *
+ * @example
+ * ```typescript
+ * serializeTransactionListFilter({
+ *   status: ["APPROVED", "REFUNDED"],
+ *   amount_range: { min: 10 }
+ * });
+ * // { from_date: undefined, ..., from_amount: 10, status: "APPROVED,REFUNDED", ... }
+ * ```
+ */
+export function serializeTransactionListFilter(
+  filter: TransactionListParams
+): Record<string, string | number | undefined> {
+  const from_date = filter.from_date ?? filter.date_range?.from;
+  const to_date = filter.to_date ?? filter.date_range?.to;
+  const from_amount = filter.from_amount ?? filter.amount_range?.min;
+  const to_amount = filter.to_amount ?? filter.amount_range?.max;
+  const amount = (value: AmountInput | undefined, field: string) =>
+    value != null
+      ? normalizeAmount(value, filter.currency ?? currencyOf(value), field)
+      : undefined;
+
+  return {
+    from_date: from_date != null ? formatPayWayDate(from_date) : undefined,
+    to_date: to_date != null ? formatPayWayDate(to_date) : undefined,
+    from_amount: amount(from_amount, "from_amount"),
+    to_amount: amount(to_amount, "to_amount"),
+    status: joinValues(filter.status),
+    payment_option: joinValues(filter.payment_option),
+    currency: filter.currency,
+    page: filter.page,
+    pagination: filter.page_size,
+  };
+}
@@ -9,22 +9,192 @@
  */
 
 export { PayWayClient } from "./client.js";
+export { PAYWAY_BASE_URLS } from "./config.js";
 export { trim } from "./utils.js";
+export {
+  PayWayError,
+  PayWayConfigError,
+  PayWayAPIError,
+  PayWayUnexpectedContentError,
+  PayWayNetworkError,
+  PayWayResponseError,
+  PayWayValidationError,
+  PayWayStatusCode,
+  toPayWayStatusCode,
+  redactUrl,
+} from "./errors.js";
+export type { PayWayErrorDetails, ValidationIssue } from "./errors.js";
+export { validatePayWayResponse, getPaymentStatus } from "./responses.js";
+export {
+  isSafeOperation,
+  isRetryableError,
+  computeBackoff,
+} from "./retry.js";
+export {
+  parseCallback,
+  verifyCallback,
+  verifyNodeCallback,
+  verifyExpressCallback,
+  verifyFetchCallback,
+  paywayCallbackMiddleware,
+  MemoryReplayStore,
+  PayWayCallbackError,
+} from "./callback.js";
+export type {
+  CallbackErrorReason,
+  ExpressLikeRequest,
+  ExpressLikeResponse,
+} from "./callback.js";
+export {
+  SubscriptionManager,
+  MemorySubscriptionStore,
+  nextBillingDate,
+  generateBillingTranId,
+} from "./subscriptions.js";
+export {
+  encodeQR,
+  renderQRToSVG,
+  renderQRToPNGDataUri,
+  renderQRToASCII,
+} from "./qr.js";
+export { formatPayWayDate, dayRange, monthRange } from "./dates.js";
+export {
+  PAYWAY_TIME_ZONE,
+  MAX_TRAN_ID_LENGTH,
+  systemClock,
+  fixedClock,
+  formatRequestTime,
+  parseRequestTime,
+  generateTranId,
+} from "./clock.js";
+export { serializeTransactionListFilter } from "./filters.js";
+export { validateTransactionParams } from "./validation.js";
+export { decryptForTesting, verifyEncryptedPayload } from "./testing.js";
+export { renderCheckoutForm, checkoutFormResponse } from "./checkout.js";
+export {
+  reconcileTransactions,
+  reconciliationToCSV,
+  reconciliationToJSON,
+} from "./reconciliation.js";
+export { parseSettlementExport, verifyPayouts } from "./settlements.js";
+export { resolvePayout, encodePayout } from "./payouts.js";
+export { cartTotal, encodeItems } from "./items.js";
+export {
+  money,
+  moneyFromMinor,
+  formatMoney,
+  isMoney,
+  toMinorUnits,
+  fromMinorUnits,
+  currencyDecimals,
+} from "./money.js";
+export {
+  isTerminalStatus,
+  TERMINAL_TRANSACTION_STATUSES,
+} from "./polling.js";
 export type {
   TransactionStatus,
   PaymentOption,
   ViewType,
+  Money,
+  AmountInput,
+  CartItem,
   CreateTransactionParams,
   CheckTransactionParams,
   TransactionListParams,
+  DateRange,
+  AmountRange,
   PayloadBuilderResponse,
+  PayloadFile,
+  EncryptedHashOrder,
+  EncryptedPayloadVerification,
+  CheckoutFormOptions,
+  CheckoutResponseOptions,
   ExecuteOptions,
+  FetchLike,
+  TransportOptions,
+  PayWayClientOptions,
+  PayWayClientConfig,
+  PayWayEnvironment,
+  RetryOptions,
+  ValidationMode,
+  Clock,
+  GenerateTranIdOptions,
   CompletePreAuthParams,
   PayoutItem,
+  ResolvedPayoutItem,
+  PayoutPercentItem,
+  PayoutSplit,
   CompletePreAuthWithPayoutParams,
   CancelPreAuthParams,
   PreAuthResponse,
-  PayWayAPIError,
+  RefundParams,
+  RefundResponse,
+  GenerateQRParams,
+  GenerateQRResponse,
+  QRErrorCorrectionLevel,
+  QRMatrix,
+  QRRenderOptions,
+  QRSvgOptions,
+  QRPngOptions,
+  QRAsciiOptions,
+  CardBrand,
+  MaskedPan,
+  ConsumerToken,
+  LinkCardParams,
+  LinkAccountParams,
+  LinkAccountResponse,
+  ListTokensParams,
+  ConsumerTokenListResponse,
+  RemoveTokenParams,
+  RemoveTokenResponse,
+  TokenPurchaseParams,
+  TokenPurchaseResponse,
+  BillingInterval,
+  SubscriptionPlan,
+  SubscriptionStatus,
+  Subscription,
+  SubscribeParams,
+  SubscriptionStore,
+  SubscriptionEvent,
+  SubscriptionManagerOptions,
+  PaywayCallbackPayload,
+  CallbackBody,
+  CallbackReplayStore,
+  VerifyCallbackOptions,
   ReturnType,
-  PaywayPaymentStatusCheckResponse
+  PaywayPaymentStatusCheckResponse,
+  PayWayStatus,
+  CheckTransactionData,
+  CheckTransactionResponse,
+  TransactionRecord,
+  TransactionListResponse,
+  TransactionWaitStatus,
+  TransactionStatusUpdate,
+  WaitForTransactionOptions,
+  ReconciliationOrder,
+  ReconcileParams,
+  ReconciliationCategory,
+  ReconciliationRecord,
+  ReconciliationReport,
+  SettlementReportParams,
+  SettlementRecord,
+  SettlementReportResponse,
+  PayoutStatementParams,
+  PayoutRecord,
+  PayoutStatementResponse,
+  SettlementExportRow,
+  ParseSettlementExportOptions,
+  PayoutVerificationStatus,
+  PayoutVerificationItem,
+  PayoutVerification,
+  PaymentLinkStatus,
+  PaymentLinkImage,
+  CreatePaymentLinkParams,
+  UpdatePaymentLinkParams,
+  PaymentLinkIdParams,
+  ListPaymentLinksParams,
+  PaymentLink,
+  PaymentLinkResponse,
+  PaymentLinkListResponse,
 } from "./types.js";
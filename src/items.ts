@@ -0,0 +1,115 @@
+import { PayWayConfigError } from "./errors.js";
+import { currencyOf, fromMinorUnits, toMinorUnits } from "./money.js";
+import type { AmountInput, CartItem } from "./types.js";
+
+/**
+ * Throws the item validation error
+ * @private
+ */
+function invalidItems(message: string): never {
+  throw new PayWayConfigError(`Invalid items: ${message}`, { code: "INVALID_ITEMS" });
+}
+
+/**
+ * Adds up line items and shipping
+ *
+ * Items are validated first; prices and shipping go through toMinorUnits, so
+ * the total is computed in minor units (cents for USD, riel for KHR) with no
+ * floating point drift.
+ *
+ * @param items - Line items
+ * @param shipping - Shipping fee (default: 0)
+ * @param currency - Transaction currency (default: "USD")
+ * @returns Sum of quantity * price for every item, plus shipping
+ * @throws {PayWayConfigError} With code "INVALID_ITEMS" for an empty list or name,
+ *   a quantity that is not a positive integer, or a price or shipping that is
+ *   not a valid amount for the currency; "CURRENCY_MISMATCH" for Money in another currency
+ *
+ * @example
+ * ```typescript
+ * cartTotal([{ name: "Coffee", quantity: 2, price: 2.5 }], 1.25); // 6.25
+ * cartTotal([{ name: "Coffee", quantity: 2, price: money("2.50") }], "1.25"); // 6.25
+ * ```
+ */
+export function cartTotal(
+  items: CartItem[],
+  shipping: AmountInput = 0,
+  currency: string = "USD"
+): number {
+  // Same rules as every other amount, reported as an item error
+  const toUnits = (value: AmountInput, field: string): number => {
+    try {
+      return toMinorUnits(value, currency, field);
+    } catch (error) {
+      if (error instanceof PayWayConfigError && error.code === "INVALID_AMOUNT") {
+        invalidItems(error.message);
+      }
+      throw error;
+    }
+  };
+
+  if (items.length === 0) {
+    invalidItems("at least one item is required");
+  }
+
+  let total = 0;
+  for (const [index, item] of items.entries()) {
+    const label = item.name?.trim() ? `"${item.name}"` : `#${index + 1}`;
+    if (!item.name?.trim()) invalidItems(`item ${label} needs a name`);
+    if (!(Number.isInteger(item.quantity) && item.quantity > 0)) {
+      invalidItems(`quantity of ${label} must be a positive integer`);
+    }
+    total += toUnits(item.price, `price of ${label}`) * item.quantity;
+  }
+
+  return fromMinorUnits(total + toUnits(shipping, "shipping"), currency);
+}
+
+/**
+ * Encodes line items the way PayWay expects (base64 JSON of name, quantity, price)
+ *
+ * Extra properties on the items are dropped. Prices are sent as numbers in
+ * major units, whichever AmountInput form they were given in.
+ *
+ * @param items - Line items
+ * @param currency - Transaction currency (default: "USD")
+ * @returns Base64-encoded JSON array
+ * @throws {PayWayConfigError} See toMinorUnits
+ */
+export function encodeItems(items: CartItem[], currency: string = "USD"): string {
+  const cart = items.map(({ name, quantity, price }) => ({
+    name: name.trim(),
+    quantity,
+    price: fromMinorUnits(toMinorUnits(price, currency, "price"), currency),
+  }));
+  return Buffer.from(JSON.stringify(cart)).toString("base64");
+}
+
+/**
+ * Works out the amount to charge for typed items
+ *
+ * @param items - Line items
+ * @param amount - Amount given by the caller (computed when omitted)
+ * @param shipping - Shipping fee
+ * @param currency - Transaction currency (default: USD, or the Money's currency)
+ * @returns The amount to send
+ * @throws {PayWayConfigError} With code "AMOUNT_MISMATCH" if amount differs from the items plus shipping
+ */
+export function resolveItemsAmount(
+  items: CartItem[],
+  amount: AmountInput | undefined,
+  shipping: AmountInput | undefined,
+  currency: string = currencyOf(amount)
+): AmountInput {
+  const total = cartTotal(items, shipping, currency);
+  if (amount == null) return total;
+
+  const actual = toMinorUnits(amount, currency);
+  if (actual !== toMinorUnits(total, currency)) {
+    throw new PayWayConfigError(
+      `Amount ${fromMinorUnits(actual, currency)} does not match the items and shipping (${total} ${currency})`,
+      { code: "AMOUNT_MISMATCH" }
+    );
+  }
+  return amount;
+}
@@ -0,0 +1,171 @@
+import { PayWayConfigError } from "./errors.js";
+import type { AmountInput, Money } from "./types.js";
+
+/**
+ * Decimal places PayWay accepts per currency
+ */
+const CURRENCY_DECIMALS: Record<string, number> = { USD: 2, KHR: 0 };
+
+/**
+ * Float noise tolerated when scaling to minor units (0.1 + 0.2 is 30.000000000000004 cents)
+ */
+const FLOAT_TOLERANCE = 1e-6;
+
+/**
+ * Number of decimal places allowed for a currency
+ * @param currency - Currency code (e.g., "USD", "KHR")
+ * @returns 2 for USD, 0 for KHR (2 for anything else)
+ */
+export function currencyDecimals(currency: string): number {
+  return CURRENCY_DECIMALS[currency.toUpperCase()] ?? 2;
+}
+
+/**
+ * Checks whether a value is a Money object
+ * @param value - Any amount input
+ * @returns True for Money, false for numbers and strings
+ */
+export function isMoney(value: unknown): value is Money {
+  return typeof value === "object" && value !== null && "minor_units" in value;
+}
+
+/**
+ * Currency of an amount: the Money's own currency, or the fallback
+ * @param value - Amount input
+ * @param fallback - Currency used for numbers and strings (default: "USD")
+ * @returns Currency code
+ */
+export function currencyOf(value: AmountInput | undefined, fallback: string = "USD"): string {
+  return isMoney(value) ? value.currency : fallback;
+}
+
+/**
+ * Converts an amount to minor units (cents for USD, riel for KHR)
+ *
+ * Numbers carrying float noise (0.1 + 0.2) are rounded; numbers and strings
+ * with more decimals than the currency allows are rejected.
+ *
+ * @param value - Amount as a number, decimal string or Money
+ * @param currency - Currency the amount is in (default: "USD")
+ * @param field - Field name used in error messages (default: "amount")
+ * @returns Whole number of minor units
+ * @throws {PayWayConfigError} With code "INVALID_AMOUNT" for a negative, non-numeric or over-precise amount,
+ *   or "CURRENCY_MISMATCH" for Money in another currency
+ *
+ * @example
+ * ```typescript
+ * toMinorUnits(0.1 + 0.2);        // 30
+ * toMinorUnits("4100", "KHR");    // 4100
+ * toMinorUnits(10.005);           // throws INVALID_AMOUNT
+ * ```
+ */
+export function toMinorUnits(
+  value: AmountInput,
+  currency: string = "USD",
+  field: string = "amount"
+): number {
+  const invalid = (reason: string): never => {
+    const shown = isMoney(value) ? `${value.minor_units} minor units` : JSON.stringify(value);
+    throw new PayWayConfigError(`Invalid ${field} ${shown}: ${reason}`, { code: "INVALID_AMOUNT" });
+  };
+
+  if (isMoney(value)) {
+    if (value.currency.toUpperCase() !== currency.toUpperCase()) {
+      throw new PayWayConfigError(
+        `${field} is in ${value.currency} but the transaction is in ${currency}`,
+        { code: "CURRENCY_MISMATCH" }
+      );
+    }
+    if (!(Number.isSafeInteger(value.minor_units) && value.minor_units >= 0)) {
+      invalid("minor_units must be a non-negative integer");
+    }
+    return value.minor_units;
+  }
+
+  if (typeof value === "string" && !/^\d+(\.\d+)?$/.test(value.trim())) {
+    invalid("expected a decimal number");
+  }
+  const amount = Number(value);
+  if (!(Number.isFinite(amount) && amount >= 0)) {
+    invalid("must be a non-negative number");
+  }
+
+  const decimals = currencyDecimals(currency);
+  const scaled = amount * 10 ** decimals;
+  const minor = Math.round(scaled);
+  if (Math.abs(scaled - minor) > FLOAT_TOLERANCE) {
+    invalid(`has more than ${decimals} decimal places for ${currency}`);
+  }
+  return minor;
+}
+
+/**
+ * Converts minor units back to a decimal amount
+ * @param minor_units - Whole number of minor units
+ * @param currency - Currency (default: "USD")
+ * @returns Amount in major units (e.g., 1050 -> 10.5 for USD)
+ */
+export function fromMinorUnits(minor_units: number, currency: string = "USD"): number {
+  return minor_units / 10 ** currencyDecimals(currency);
+}
+
+/**
+ * Creates a Money value
+ *
+ * @param amount - Amount in major units (e.g., 10.5 or "10.50")
+ * @param currency - Currency (default: "USD")
+ * @returns Money with the amount in minor units
+ * @throws {PayWayConfigError} With code "INVALID_AMOUNT" if the amount is negative or too precise
+ *
+ * @example
+ * ```typescript
+ * money(9.99);           // { currency: "USD", minor_units: 999 }
+ * money(4100, "KHR");    // { currency: "KHR", minor_units: 4100 }
+ * ```
+ */
+export function money(amount: number | string, currency: Money["currency"] = "USD"): Money {
+  return { currency, minor_units: toMinorUnits(amount, currency) };
+}
+
+/**
+ * Creates a Money value from minor units
+ * @param minor_units - Cents for USD, riel for KHR
+ * @param currency - Currency (default: "USD")
+ * @returns Money value
+ * @throws {PayWayConfigError} With code "INVALID_AMOUNT" if minor_units is not a non-negative integer
+ */
+export function moneyFromMinor(minor_units: number, currency: Money["currency"] = "USD"): Money {
+  const value: Money = { currency, minor_units };
+  toMinorUnits(value, currency);
+  return value;
+}
+
+/**
+ * Formats Money with the currency's decimal places
+ * @param value - Money value
+ * @returns Fixed-point string (e.g., "10.50" for USD, "4100" for KHR)
+ */
+export function formatMoney(value: Money): string {
+  return fromMinorUnits(value.minor_units, value.currency).toFixed(currencyDecimals(value.currency));
+}
+
+/**
+ * Validates an amount and returns the value to sign
+ *
+ * Strings are sent exactly as given (after validation); numbers and Money are
+ * sent as the rounded number, so 0.1 + 0.2 is signed as "0.3".
+ *
+ * @param value - Amount input
+ * @param currency - Transaction currency
+ * @param field - Field name used in error messages
+ * @returns Amount ready for create_payload or merchant_auth
+ * @throws {PayWayConfigError} See toMinorUnits
+ */
+export function normalizeAmount(
+  value: AmountInput,
+  currency: string = "USD",
+  field: string = "amount"
+): number | string {
+  const minor = toMinorUnits(value, currency, field);
+  return typeof value === "string" ? value.trim() : fromMinorUnits(minor, currency);
+}
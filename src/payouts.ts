@@ -0,0 +1,123 @@
+import { PayWayConfigError } from "./errors.js";
+import { currencyDecimals, currencyOf, fromMinorUnits, toMinorUnits } from "./money.js";
+import type { AmountInput, PayoutSplit, ResolvedPayoutItem } from "./types.js";
+
+/**
+ * Throws the payout validation error
+ * @private
+ */
+function invalidPayout(message: string): never {
+  throw new PayWayConfigError(`Invalid payout: ${message}`, { code: "INVALID_PAYOUT" });
+}
+
+/**
+ * Resolves payout splits into exact amounts
+ *
+ * Percentage splits are converted with the largest remainder method: their
+ * total is rounded half up to the smallest currency unit (cents for USD, riel
+ * for KHR), every share is rounded down, and the units left over go to the
+ * shares with the largest remainders (earlier splits win ties). The result is
+ * the same on every run and 100% always adds up to the exact amount.
+ *
+ * @param splits - Fixed amounts and/or percentages per account
+ * @param amount - Transaction amount
+ * @param currency - Transaction currency (default: "USD", or the Money's currency)
+ * @returns One payout item per split, in the same order, with amt as a number
+ * @throws {PayWayConfigError} With code "INVALID_PAYOUT" for an empty or duplicate account,
+ *   a non-positive share, too many decimals for the currency, Money in another currency,
+ *   or splits adding up to more than the amount; "INVALID_AMOUNT" if the amount itself is invalid
+ *
+ * @example
+ * ```typescript
+ * resolvePayout(
+ *   [{ acc: "000133879", percent: 33.33 }, { acc: "000133880", percent: 66.67 }],
+ *   10
+ * );
+ * // [{ acc: "000133879", amt: 3.33 }, { acc: "000133880", amt: 6.67 }]
+ * ```
+ */
+export function resolvePayout(
+  splits: PayoutSplit[],
+  amount: AmountInput,
+  currency: string = currencyOf(amount)
+): ResolvedPayoutItem[] {
+  const unit = 10 ** currencyDecimals(currency);
+
+  // Step 1: Validate the amount and each split
+  const totalUnits = toMinorUnits(amount, currency);
+  if (totalUnits <= 0) {
+    invalidPayout("amount must be a positive number");
+  }
+  if (splits.length === 0) {
+    invalidPayout("at least one account is required");
+  }
+
+  const accounts = new Set<string>();
+  const units: number[] = [];
+  for (const split of splits) {
+    const acc = split.acc?.trim();
+    if (!acc) invalidPayout("acc is required");
+    if (accounts.has(acc)) invalidPayout(`account ${acc} appears more than once`);
+    accounts.add(acc);
+
+    if ("percent" in split) {
+      if (!(Number.isFinite(split.percent) && split.percent > 0 && split.percent <= 100)) {
+        invalidPayout(`percent for ${acc} must be greater than 0 and at most 100`);
+      }
+      units.push((totalUnits * split.percent) / 100);
+    } else {
+      let amtUnits = 0;
+      try {
+        amtUnits = toMinorUnits(split.amt, currency, `amt for ${acc}`);
+      } catch (error) {
+        if (!(error instanceof PayWayConfigError)) throw error;
+        invalidPayout(error.message);
+      }
+      if (amtUnits <= 0) {
+        invalidPayout(`amt for ${acc} must be a positive number`);
+      }
+      units.push(amtUnits);
+    }
+  }
+
+  // Step 2: Resolve percentages in whole currency units
+  const resolved = units.map((value) => Math.floor(value + 1e-9));
+
+  const percentIndexes = splits
+    .map((split, index) => ("percent" in split ? index : -1))
+    .filter((index) => index >= 0);
+  const percentTotal = percentIndexes.reduce((sum, index) => sum + units[index], 0);
+  let leftover =
+    Math.round(percentTotal) - percentIndexes.reduce((sum, index) => sum + resolved[index], 0);
+
+  const byRemainder = [...percentIndexes].sort(
+    (a, b) => units[b] - resolved[b] - (units[a] - resolved[a]) || a - b
+  );
+  for (const index of byRemainder) {
+    if (leftover <= 0) break;
+    resolved[index]++;
+    leftover--;
+  }
+
+  // Step 3: The splits may not pay out more than the transaction
+  const payoutUnits = resolved.reduce((sum, value) => sum + value, 0);
+  if (payoutUnits > totalUnits) {
+    invalidPayout(
+      `splits add up to ${payoutUnits / unit}, more than the amount ${fromMinorUnits(totalUnits, currency)}`
+    );
+  }
+
+  return splits.map((split, index) => ({
+    acc: split.acc.trim(),
+    amt: resolved[index] / unit,
+  }));
+}
+
+/**
+ * Encodes resolved payout items the way PayWay expects (base64 JSON)
+ * @param payout - Payout items from resolvePayout()
+ * @returns Base64-encoded JSON array
+ */
+export function encodePayout(payout: ResolvedPayoutItem[]): string {
+  return Buffer.from(JSON.stringify(payout)).toString("base64");
+}
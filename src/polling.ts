@@ -0,0 +1,114 @@
+import type { PayWayClient } from "./client.js";
+import { PayWayNetworkError } from "./errors.js";
+import { getPaymentStatus } from "./responses.js";
+import { isRetryableError, sleep } from "./retry.js";
+import type {
+  CheckTransactionResponse,
+  TransactionStatusUpdate,
+  WaitForTransactionOptions,
+} from "./types.js";
+
+const DEFAULT_POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Statuses after which a transaction no longer changes on its own
+ */
+export const TERMINAL_TRANSACTION_STATUSES: readonly string[] = [
+  "APPROVED",
+  "PRE-AUTH",
+  "DECLINED",
+  "CANCELLED",
+  "REFUNDED",
+];
+
+/**
+ * Checks whether a transaction status is final
+ * @param status - payment_status from check-transaction
+ * @returns True unless the payment is still in progress (e.g., "PENDING")
+ */
+export function isTerminalStatus(status: string): boolean {
+  return TERMINAL_TRANSACTION_STATUSES.includes(status.toUpperCase());
+}
+
+/**
+ * Polls check-transaction and yields every status change
+ *
+ * Transient errors (network, timeouts, 5xx) are ignored and polled again.
+ * Other errors are thrown. Legacy responses with a numeric payment_status
+ * are mapped to the same statuses (see getPaymentStatus()).
+ *
+ * @param client - PayWayClient used to check the transaction
+ * @param tran_id - Transaction ID to watch
+ * @param options - Polling options
+ * @returns Async generator of status updates; the last one has final: true
+ * @throws {PayWayNetworkError} With code "TIMEOUT" after timeoutMs, or "ABORTED" when the signal aborts
+ */
+export async function* pollTransaction(
+  client: PayWayClient,
+  tran_id: string,
+  options: WaitForTransactionOptions = {}
+): AsyncGenerator<TransactionStatusUpdate> {
+  const {
+    intervalMs = 2000,
+    maxIntervalMs = 10000,
+    lifetime,
+    startedAt = new Date(),
+    signal,
+    executeOptions = {},
+  } = options;
+  const timeoutMs =
+    options.timeoutMs ?? (lifetime != null ? Infinity : DEFAULT_POLL_TIMEOUT_MS);
+
+  const waitDeadline = Date.now() + timeoutMs;
+  const expiresAt =
+    lifetime != null ? startedAt.getTime() + lifetime * 60 * 1000 : Infinity;
+  let delayMs = intervalMs;
+  let lastStatus: string | undefined;
+
+  for (;;) {
+    // Decide before checking, so the last check happens after expiry
+    const expired = Date.now() >= expiresAt;
+
+    // Step 1: Check the current status (a failed check leaves response unset)
+    let response: CheckTransactionResponse | undefined;
+    try {
+      response = await client.checkTransaction(tran_id, { ...executeOptions, signal });
+    } catch (error) {
+      if (!isRetryableError(error)) throw error;
+    }
+
+    const status = response ? getPaymentStatus(response) : undefined;
+    if (status != null) {
+      const final = isTerminalStatus(status);
+      if (status !== lastStatus) {
+        lastStatus = status;
+        yield { tran_id, status, response, final };
+      }
+      if (final) return;
+    }
+
+    if (expired) {
+      yield { tran_id, status: "EXPIRED", response, final: true };
+      return;
+    }
+
+    // Step 2: Wait with backoff, waking up early at expiry or the deadline
+    const now = Date.now();
+    if (now >= waitDeadline) {
+      throw new PayWayNetworkError(
+        `Timed out waiting for transaction ${tran_id} (last status: ${lastStatus ?? "unknown"})`,
+        { code: "TIMEOUT" }
+      );
+    }
+
+    try {
+      await sleep(Math.min(delayMs, waitDeadline - now, Math.max(expiresAt - now, 0)), signal);
+    } catch (cause) {
+      throw new PayWayNetworkError(`Waiting for transaction ${tran_id} was aborted`, {
+        code: "ABORTED",
+        cause,
+      });
+    }
+    delayMs = Math.min(maxIntervalMs, delayMs * 1.5);
+  }
+}
@@ -0,0 +1,642 @@
+/*
+ * The QR code encoder in this file is derived from the QR Code generator
+ * library by Project Nayuki (https://www.nayuki.io/page/qr-code-generator-library).
+ *
+ * Copyright (c) Project Nayuki. (MIT License)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ * - The above copyright notice and this permission notice shall be included in
+ *   all copies or substantial portions of the Software.
+ * - The Software is provided "as is", without warranty of any kind, express or
+ *   implied, including but not limited to the warranties of merchantability,
+ *   fitness for a particular purpose and noninfringement. In no event shall the
+ *   authors or copyright holders be liable for any claim, damages or other
+ *   liability, whether in an action of contract, tort or otherwise, arising from,
+ *   out of or in connection with the Software or the use or other dealings in the
+ *   Software.
+ */
+
+import { deflateSync } from "node:zlib";
+import type {
+  QRAsciiOptions,
+  QRErrorCorrectionLevel,
+  QRMatrix,
+  QRPngOptions,
+  QRRenderOptions,
+  QRSvgOptions,
+} from "./types.js";
+
+/**
+ * Minimal QR code encoder (byte mode, versions 1-40) and renderers
+ *
+ * Follows ISO/IEC 18004. Only byte mode is needed: KHQR strings are
+ * EMVCo payloads that mix digits, letters and punctuation. The encoder is
+ * a port of Project Nayuki's QR Code generator (see the notice above).
+ */
+
+const ECL_ORDINAL: Record<QRErrorCorrectionLevel, number> = { L: 0, M: 1, Q: 2, H: 3 };
+
+// Format information bits for each level (not the same order as the ordinal)
+const ECL_FORMAT_BITS: Record<QRErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Error correction codewords per block, indexed by [level][version]
+const ECC_CODEWORDS_PER_BLOCK: number[][] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+// Number of error correction blocks, indexed by [level][version]
+const NUM_ERROR_CORRECTION_BLOCKS: number[][] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+/**
+ * Number of modules available for data and error correction in a version
+ * @private
+ */
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+/**
+ * Number of data codewords (excluding error correction) in a version
+ * @private
+ */
+function getNumDataCodewords(version: number, level: number): number {
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[level][version] * NUM_ERROR_CORRECTION_BLOCKS[level][version]
+  );
+}
+
+/**
+ * Multiplies two elements of GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+ * @private
+ */
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+/**
+ * Reed-Solomon generator polynomial of the given degree
+ * @private
+ */
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+/**
+ * Reed-Solomon error correction codewords for one block
+ * @private
+ */
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/**
+ * Encodes text as data codewords (mode, length, bytes, terminator, padding)
+ * @private
+ */
+function encodeData(bytes: Uint8Array, version: number, level: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4); // Byte mode
+  append(bytes.length, version <= 9 ? 8 : 16);
+  for (const byte of bytes) append(byte, 8);
+
+  const capacity = getNumDataCodewords(version, level) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+/**
+ * Splits data into blocks, adds error correction and interleaves the result
+ * @private
+ */
+function addErrorCorrection(data: number[], version: number, level: number): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[level][version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const length = shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1);
+    const block = data.slice(k, k + length);
+    k += length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    // Pad short blocks so every block has the same length while interleaving
+    if (i < numShortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+/**
+ * Center positions of the alignment patterns in a version
+ * @private
+ */
+function getAlignmentPatternPositions(version: number): number[] {
+  if (version === 1) return [];
+
+  const size = version * 4 + 17;
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+/**
+ * Whether a mask pattern inverts the module at (x, y)
+ * @private
+ */
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+/**
+ * Module grid being built for one symbol
+ * @private
+ */
+class QRGrid {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(
+    private readonly version: number,
+    private readonly level: QRErrorCorrectionLevel
+  ) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunctionModule(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFunctionPatterns(): void {
+    // Step 1: Timing patterns
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    // Step 2: Finder patterns (with separators) in three corners
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    // Step 3: Alignment patterns, except where they overlap the finders
+    const positions = getAlignmentPatternPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((y, i) => {
+      positions.forEach((x, j) => {
+        if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) {
+          this.drawAlignmentPattern(x, y);
+        }
+      });
+    });
+
+    // Step 4: Reserve format and version areas
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  private drawFinderPattern(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (ECL_FORMAT_BITS[this.level] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+    // Around the top-left finder
+    for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, bit(i));
+    this.setFunctionModule(8, 7, bit(6));
+    this.setFunctionModule(8, 8, bit(7));
+    this.setFunctionModule(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunctionModule(14 - i, 8, bit(i));
+
+    // Copy next to the other two finders
+    for (let i = 0; i < 8; i++) this.setFunctionModule(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunctionModule(8, this.size - 15 + i, bit(i));
+    this.setFunctionModule(8, this.size - 8, true); // Always dark
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return;
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, dark);
+      this.setFunctionModule(b, a, dark);
+    }
+  }
+
+  drawCodewords(codewords: number[]): void {
+    let i = 0;
+    // Zigzag through two-module columns from the bottom-right corner
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // Skip the vertical timing pattern
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        const y = upward ? this.size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskApplies(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  /**
+   * Penalty score from ISO/IEC 18004 section 7.8.3 (lower is easier to scan)
+   */
+  penalty(): number {
+    const { size, modules } = this;
+    let result = 0;
+    const column = (x: number) => modules.map((row) => row[x]);
+    const lines = [...modules, ...Array.from({ length: size }, (_v, x) => column(x))];
+    const finderLike = [
+      [true, false, true, true, true, false, true, false, false, false, false],
+      [false, false, false, false, true, false, true, true, true, false, true],
+    ];
+
+    for (const line of lines) {
+      // Rule 1: Runs of five or more modules of the same color
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) result += 3 + (run - 5);
+          run = 1;
+        }
+      }
+
+      // Rule 3: Patterns that look like a finder
+      for (let i = 0; i + 11 <= size; i++) {
+        if (finderLike.some((pattern) => pattern.every((dark, k) => line[i + k] === dark))) {
+          result += 40;
+        }
+      }
+    }
+
+    // Rule 2: 2x2 blocks of the same color
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y][x];
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+          result += 3;
+        }
+      }
+    }
+
+    // Rule 4: Balance of dark and light modules
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+
+    return result;
+  }
+}
+
+/**
+ * Encodes text as a QR code
+ *
+ * Picks the smallest version that fits and the mask with the lowest penalty.
+ *
+ * @param text - Text to encode (UTF-8, e.g. a KHQR qr_string)
+ * @param options - Error correction level (default: "M")
+ * @returns Module matrix (modules[y][x] is true for dark modules)
+ * @throws {RangeError} If the text does not fit in a version 40 symbol
+ *
+ * @example
+ * ```typescript
+ * const qr = encodeQR(result.qr_string);
+ * console.log(qr.size); // e.g. 57
+ * ```
+ */
+export function encodeQR(
+  text: string,
+  options: Pick<QRRenderOptions, "errorCorrection"> = {}
+): QRMatrix {
+  const level = options.errorCorrection ?? "M";
+  const ordinal = ECL_ORDINAL[level];
+  const bytes = new TextEncoder().encode(text);
+
+  // Step 1: Find the smallest version that fits
+  let version = 1;
+  for (; version <= 40; version++) {
+    const countBits = version <= 9 ? 8 : 16;
+    if (bytes.length < 2 ** countBits && 4 + countBits + bytes.length * 8 <= getNumDataCodewords(version, ordinal) * 8) {
+      break;
+    }
+  }
+  if (version > 40) {
+    throw new RangeError(`Text is too long for a QR code (${bytes.length} bytes)`);
+  }
+
+  // Step 2: Place data and error correction codewords
+  const grid = new QRGrid(version, level);
+  grid.drawCodewords(addErrorCorrection(encodeData(bytes, version, ordinal), version, ordinal));
+
+  // Step 3: Try every mask and keep the one with the lowest penalty
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    grid.applyMask(mask);
+    grid.drawFormatBits(mask);
+    const penalty = grid.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    grid.applyMask(mask); // Masks are XOR, so applying again undoes it
+  }
+  grid.applyMask(bestMask);
+  grid.drawFormatBits(bestMask);
+
+  return { version, size: grid.size, modules: grid.modules };
+}
+
+/**
+ * Reads a module including the quiet zone (always light)
+ * @private
+ */
+function isDark(qr: QRMatrix, x: number, y: number): boolean {
+  return x >= 0 && y >= 0 && x < qr.size && y < qr.size && qr.modules[y][x];
+}
+
+// Hex, named and rgb()/hsl() colors; nothing that can break out of an attribute
+const SVG_COLOR_PATTERN = /^(?:#[0-9a-f]{3,8}|[a-z]+|(?:rgba?|hsla?)\([\d\s.,%/+-]*\))$/i;
+
+/**
+ * Checks that an SVG color option is safe to put in an attribute
+ * @private
+ */
+function svgColor(value: string, option: string): string {
+  if (!SVG_COLOR_PATTERN.test(value)) {
+    throw new RangeError(`Invalid ${option} color: ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Renders text as an SVG QR code
+ *
+ * @param text - Text to encode (e.g. a KHQR qr_string)
+ * @param options - Rendering options
+ * @returns SVG markup
+ * @throws {RangeError} If foreground or background is not a CSS color
+ *
+ * @example
+ * ```typescript
+ * const svg = renderQRToSVG(result.qr_string, { size: 320 });
+ * res.type("image/svg+xml").send(svg);
+ * ```
+ */
+export function renderQRToSVG(text: string, options: QRSvgOptions = {}): string {
+  const { margin = 4 } = options;
+  const foreground = svgColor(options.foreground ?? "#000000", "foreground");
+  const background = svgColor(options.background ?? "#ffffff", "background");
+  const qr = encodeQR(text, options);
+  const dimension = qr.size + margin * 2;
+  const size = options.size ?? dimension * 8;
+
+  let path = "";
+  for (let y = 0; y < qr.size; y++) {
+    for (let x = 0; x < qr.size; x++) {
+      if (qr.modules[y][x]) path += `M${x + margin},${y + margin}h1v1h-1z`;
+    }
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" ` +
+    `viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="${background}"/>` +
+    `<path d="${path}" fill="${foreground}"/>` +
+    `</svg>`
+  );
+}
+
+// CRC-32 lookup table for PNG chunks
+const CRC_TABLE = Array.from({ length: 256 }, (_v, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+/**
+ * Builds one PNG chunk (length, type, data, CRC)
+ * @private
+ */
+function pngChunk(type: string, data: Buffer): Buffer {
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  let crc = 0xffffffff;
+  for (const byte of typeAndData) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32BE((crc ^ 0xffffffff) >>> 0);
+  return Buffer.concat([length, typeAndData, checksum]);
+}
+
+/**
+ * Renders text as a PNG QR code
+ *
+ * @param text - Text to encode (e.g. a KHQR qr_string)
+ * @param options - Rendering options
+ * @returns PNG image as a data URI (data:image/png;base64,...)
+ *
+ * @example
+ * ```typescript
+ * const src = renderQRToPNGDataUri(result.qr_string, { scale: 10 });
+ * return `<img src="${src}" alt="Scan with ABA Mobile">`;
+ * ```
+ */
+export function renderQRToPNGDataUri(text: string, options: QRPngOptions = {}): string {
+  const { margin = 4, scale = 8 } = options;
+  const qr = encodeQR(text, options);
+  const width = (qr.size + margin * 2) * scale;
+
+  // 8-bit grayscale rows, each prefixed with filter type 0 (none)
+  const raw = Buffer.alloc((width + 1) * width);
+  for (let py = 0; py < width; py++) {
+    const rowStart = py * (width + 1);
+    for (let px = 0; px < width; px++) {
+      const dark = isDark(qr, Math.floor(px / scale) - margin, Math.floor(py / scale) - margin);
+      raw[rowStart + 1 + px] = dark ? 0x00 : 0xff;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(width, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 0; // Color type: grayscale
+
+  const png = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+
+  return `data:image/png;base64,${png.toString("base64")}`;
+}
+
+/**
+ * Renders text as a QR code for a terminal
+ *
+ * Uses half-block characters so each line shows two rows of modules.
+ *
+ * @param text - Text to encode (e.g. a KHQR qr_string)
+ * @param options - Rendering options (use invert for light text on a dark background)
+ * @returns Multi-line string
+ *
+ * @example
+ * ```typescript
+ * console.log(renderQRToASCII(result.qr_string, { invert: true }));
+ * ```
+ */
+export function renderQRToASCII(text: string, options: QRAsciiOptions = {}): string {
+  const { margin = 2, invert = false } = options;
+  const qr = encodeQR(text, options);
+  const filled = (x: number, y: number) => isDark(qr, x, y) !== invert;
+
+  const lines: string[] = [];
+  for (let y = -margin; y < qr.size + margin; y += 2) {
+    let line = "";
+    for (let x = -margin; x < qr.size + margin; x++) {
+      const top = filled(x, y);
+      const bottom = y + 1 < qr.size + margin && filled(x, y + 1);
+      line += top && bottom ? "█" : top ? "▀" : bottom ? "▄" : " ";
+    }
+    lines.push(line);
+  }
+  return lines.join("\n");
+}
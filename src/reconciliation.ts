@@ -0,0 +1,216 @@
+import type { PayWayClient } from "./client.js";
+import { formatPayWayDate } from "./dates.js";
+import type {
+  ExecuteOptions,
+  ReconcileParams,
+  ReconciliationCategory,
+  ReconciliationOrder,
+  ReconciliationRecord,
+  ReconciliationReport,
+  TransactionRecord,
+} from "./types.js";
+
+const CSV_COLUMNS = [
+  "tran_id",
+  "category",
+  "order_amount",
+  "order_currency",
+  "expected_status",
+  "payway_amount",
+  "payway_currency",
+  "payway_status",
+  "transaction_date",
+];
+
+/**
+ * Compares amounts to the cent so "10.1" and 10.10 are equal
+ * @private
+ */
+function sameAmount(a: number | string, b: number | string): boolean {
+  return Math.round(Number(a) * 100) === Math.round(Number(b) * 100);
+}
+
+/**
+ * Decides the category of an order that PayWay knows about
+ * @private
+ */
+function categorize(
+  order: ReconciliationOrder,
+  transaction: TransactionRecord
+): ReconciliationCategory {
+  const currency = order.currency ?? "USD";
+  const expected_status = order.expected_status ?? "APPROVED";
+
+  if (
+    !sameAmount(order.amount, transaction.original_amount) ||
+    currency !== transaction.original_currency?.toUpperCase()
+  ) {
+    return "amount_mismatch";
+  }
+  if (expected_status !== transaction.payment_status?.toUpperCase()) {
+    return "status_mismatch";
+  }
+  return "matched";
+}
+
+/**
+ * Reconciles merchant orders against the PayWay transaction list
+ *
+ * Pages through every PayWay transaction in the date range and matches it to
+ * the orders by tran_id. Orders should cover the same period; an order created
+ * outside date_range shows up as missing_at_payway. When an order or a PayWay
+ * transaction repeats a tran_id, the first one is matched and every repeat is
+ * reported as duplicate.
+ *
+ * @param client - PayWayClient used to list transactions
+ * @param params - Orders and the period to reconcile
+ * @param options - Execution options for every transaction-list request
+ * @returns Report grouped by category
+ *
+ * @example
+ * ```typescript
+ * const report = await reconcileTransactions(client, {
+ *   orders: await db.orders.createdOn(yesterday),
+ *   date_range: dayRange(yesterday)
+ * });
+ *
+ * console.log(`${report.matched.length} matched, ${report.missing_at_payway.length} missing`);
+ * await fs.writeFile("reconciliation.csv", reconciliationToCSV(report));
+ * ```
+ */
+export async function reconcileTransactions(
+  client: PayWayClient,
+  params: ReconcileParams,
+  options: ExecuteOptions = {}
+): Promise<ReconciliationReport> {
+  const { orders, date_range, page_size = 100 } = params;
+
+  // Step 1: Collect PayWay transactions by tran_id, keeping repeats aside
+  const transactions = new Map<string, TransactionRecord>();
+  const repeatedTransactions: TransactionRecord[] = [];
+  for await (const transaction of client.iterateTransactions(
+    { date_range, page_size },
+    options
+  )) {
+    if (transactions.has(transaction.transaction_id)) {
+      repeatedTransactions.push(transaction);
+    } else {
+      transactions.set(transaction.transaction_id, transaction);
+    }
+  }
+
+  // Step 2: Match merchant orders (the first order per tran_id is matched)
+  const records: ReconciliationRecord[] = [];
+  const seen = new Set<string>();
+  for (const order of orders) {
+    if (seen.has(order.tran_id)) {
+      records.push({ tran_id: order.tran_id, category: "duplicate", order });
+      continue;
+    }
+    seen.add(order.tran_id);
+
+    const transaction = transactions.get(order.tran_id);
+    records.push(
+      transaction
+        ? { tran_id: order.tran_id, category: categorize(order, transaction), order, transaction }
+        : { tran_id: order.tran_id, category: "missing_at_payway", order }
+    );
+  }
+
+  // Step 3: Anything left at PayWay has no merchant order
+  for (const [tran_id, transaction] of transactions) {
+    if (!seen.has(tran_id)) {
+      records.push({ tran_id, category: "unknown_at_merchant", transaction });
+    }
+  }
+  for (const transaction of repeatedTransactions) {
+    records.push({ tran_id: transaction.transaction_id, category: "duplicate", transaction });
+  }
+
+  const byCategory = (category: ReconciliationCategory) =>
+    records.filter((record) => record.category === category);
+
+  return {
+    from_date: formatPayWayDate(date_range.from),
+    to_date: formatPayWayDate(date_range.to),
+    generated_at: new Date().toISOString(),
+    records,
+    matched: byCategory("matched"),
+    missing_at_payway: byCategory("missing_at_payway"),
+    unknown_at_merchant: byCategory("unknown_at_merchant"),
+    amount_mismatch: byCategory("amount_mismatch"),
+    status_mismatch: byCategory("status_mismatch"),
+    duplicate: byCategory("duplicate"),
+  };
+}
+
+/**
+ * Quotes a CSV cell when it contains a comma, quote or line break
+ *
+ * Text starting with =, +, -, @, tab or CR is prefixed with ' (and quoted)
+ * so spreadsheets show it instead of running it as a formula. Numbers are
+ * written as they are.
+ * @private
+ */
+function csvCell(value: unknown): string {
+  let text = value == null ? "" : String(value);
+  if (typeof value !== "number" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Exports a reconciliation report as CSV (one row per record)
+ *
+ * Columns: tran_id, category, order_amount, order_currency, expected_status,
+ * payway_amount, payway_currency, payway_status, transaction_date.
+ *
+ * @param report - Report from reconcileTransactions
+ * @returns CSV text with a header row and CRLF line endings
+ */
+export function reconciliationToCSV(report: ReconciliationReport): string {
+  const rows = report.records.map(({ tran_id, category, order, transaction }) => [
+    tran_id,
+    category,
+    order?.amount,
+    order && (order.currency ?? "USD"),
+    order && (order.expected_status ?? "APPROVED"),
+    transaction?.original_amount,
+    transaction?.original_currency,
+    transaction?.payment_status,
+    transaction?.transaction_date,
+  ]);
+
+  return [CSV_COLUMNS, ...rows]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n");
+}
+
+/**
+ * Exports a reconciliation report as JSON
+ *
+ * The output holds the period, a count per category and every record once
+ * (the per-category lists are left out since they repeat the records).
+ *
+ * @param report - Report from reconcileTransactions
+ * @param space - Indentation passed to JSON.stringify (default: 2)
+ * @returns JSON text
+ */
+export function reconciliationToJSON(
+  report: ReconciliationReport,
+  space: number = 2
+): string {
+  const { from_date, to_date, generated_at, records } = report;
+  const summary = {
+    matched: report.matched.length,
+    missing_at_payway: report.missing_at_payway.length,
+    unknown_at_merchant: report.unknown_at_merchant.length,
+    amount_mismatch: report.amount_mismatch.length,
+    status_mismatch: report.status_mismatch.length,
+    duplicate: report.duplicate.length,
+  };
+
+  return JSON.stringify({ from_date, to_date, generated_at, summary, records }, null, space);
+}
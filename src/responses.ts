@@ -0,0 +1,298 @@
+import { PayWayResponseError } from "./errors.js";
+import type {
+  CheckTransactionResponse,
+  PaywayPaymentStatusCheckResponse,
+  TransactionStatus,
+} from "./types.js";
+
+/**
+ * Expected type of a response field
+ * - "numeric": number or numeric string (PayWay is not consistent about amounts)
+ */
+type FieldRule = "string" | "number" | "numeric" | "object" | "array";
+
+/**
+ * Shape of a successful response for one PayWay operation
+ */
+interface ResponseSchema {
+  /**
+   * Operation name used in error messages
+   */
+  operation: string;
+
+  /**
+   * Endpoint path suffix used to match the request URL
+   */
+  path: string;
+
+  /**
+   * Fields required on success (dot paths, e.g. "data.payment_status")
+   */
+  fields: Record<string, FieldRule>;
+
+  /**
+   * Fields required on success when the response has a legacy numeric status
+   * (default: fields)
+   */
+  legacyFields?: Record<string, FieldRule>;
+}
+
+/**
+ * Schemas for every endpoint the client can build a payload for
+ */
+const RESPONSE_SCHEMAS: ResponseSchema[] = [
+  {
+    operation: "purchase",
+    path: "/payments/purchase",
+    fields: {},
+  },
+  {
+    operation: "generate-qr",
+    path: "/payments/generate-qr",
+    fields: { qr_string: "string" },
+  },
+  {
+    operation: "check-transaction",
+    path: "/payments/check-transaction",
+    fields: {
+      data: "object",
+      "data.payment_status": "string",
+      "data.total_amount": "numeric",
+    },
+    legacyFields: {
+      payment_status: "numeric",
+      total: "numeric",
+    },
+  },
+  {
+    operation: "transaction-list",
+    path: "/payments/transaction-list",
+    fields: {
+      data: "array",
+    },
+  },
+  {
+    operation: "pre-auth-completion",
+    path: "/pre-auth-completion",
+    fields: { transaction_status: "string" },
+  },
+  {
+    operation: "pre-auth-completion-with-payout",
+    path: "/pre-auth-completion-with-payout",
+    fields: { transaction_status: "string" },
+  },
+  {
+    operation: "pre-auth-cancellation",
+    path: "/pre-auth-cancellation",
+    fields: { transaction_status: "string" },
+  },
+  {
+    operation: "refund",
+    path: "/online-transaction/refund",
+    fields: { transaction_status: "string" },
+  },
+  {
+    operation: "link-account",
+    path: "/aof/request-qr",
+    fields: { qr_string: "string" },
+  },
+  {
+    operation: "settlement-report",
+    path: "/settlement/list",
+    fields: { data: "array" },
+  },
+  {
+    operation: "payout-statement",
+    path: "/payout/list",
+    fields: { data: "array" },
+  },
+  {
+    operation: "list-tokens",
+    path: "/cof/list",
+    fields: { data: "array" },
+  },
+  {
+    operation: "remove-token",
+    path: "/cof/remove",
+    fields: {},
+  },
+  {
+    operation: "token-purchase",
+    path: "/cof/purchase",
+    fields: { transaction_status: "string" },
+  },
+  {
+    operation: "create-payment-link",
+    path: "/payment-link/create",
+    fields: { data: "object", "data.id": "string", "data.payment_link": "string" },
+  },
+  {
+    operation: "get-payment-link",
+    path: "/payment-link/detail",
+    fields: { data: "object", "data.id": "string" },
+  },
+  {
+    operation: "list-payment-links",
+    path: "/payment-link/list",
+    fields: { data: "array" },
+  },
+  {
+    operation: "update-payment-link",
+    path: "/payment-link/update",
+    fields: { data: "object" },
+  },
+  {
+    operation: "deactivate-payment-link",
+    path: "/payment-link/update-status",
+    fields: { data: "object" },
+  },
+];
+
+/**
+ * Transaction statuses for the numeric payment status codes of check-transaction
+ * (payment_status in legacy responses, payment_status_code in current ones)
+ */
+const LEGACY_PAYMENT_STATUSES: Record<number, TransactionStatus> = {
+  0: "APPROVED",
+  1: "PENDING", // created, not paid yet
+  2: "PENDING",
+  3: "DECLINED",
+  4: "REFUNDED",
+  7: "CANCELLED",
+};
+
+/**
+ * Reads the payment status from a check-transaction response
+ *
+ * Works with both response formats: the current one
+ * (data.payment_status) and the legacy one with a numeric status and
+ * payment_status code.
+ *
+ * @param response - Response from checkTransaction()
+ * @returns Payment status (e.g., "APPROVED"), or undefined if the response has none
+ *   or the legacy code is unknown
+ *
+ * @example
+ * ```typescript
+ * getPaymentStatus(await client.checkTransaction("ORDER-123")); // "APPROVED"
+ * getPaymentStatus({ status: 0, payment_status: 2, amount: 10, total: 10, datetime: "" }); // "PENDING"
+ * ```
+ */
+export function getPaymentStatus(
+  response: CheckTransactionResponse | PaywayPaymentStatusCheckResponse
+): TransactionStatus | undefined {
+  if (typeof response.status === "number") {
+    const code = Number((response as PaywayPaymentStatusCheckResponse).payment_status);
+    return LEGACY_PAYMENT_STATUSES[code];
+  }
+  return (response as CheckTransactionResponse).data?.payment_status;
+}
+
+/**
+ * Finds the schema for a request URL
+ * @private
+ */
+function findSchema(url: string): ResponseSchema | undefined {
+  const path = url.split("?")[0];
+  return RESPONSE_SCHEMAS.find((schema) => path.endsWith(schema.path));
+}
+
+/**
+ * Reads a dot path from an object
+ * @private
+ */
+function getPath(body: any, path: string): unknown {
+  return path
+    .split(".")
+    .reduce((value, key) => (value != null ? value[key] : undefined), body);
+}
+
+/**
+ * Checks a single value against a rule
+ * @private
+ */
+function matchesRule(value: unknown, rule: FieldRule): boolean {
+  switch (rule) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "numeric":
+      return (
+        (typeof value === "number" && Number.isFinite(value)) ||
+        (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value)))
+      );
+    case "object":
+      return value != null && typeof value === "object" && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+  }
+}
+
+/**
+ * Validates a JSON response from PayWay
+ *
+ * 1. The response must contain a status block (object with code, or a legacy numeric status)
+ * 2. status.code must be "0"/"00", otherwise PayWay reported a failure
+ * 3. Fields required by the operation's schema must be present with the right type
+ *    (the legacy fields when the status is numeric)
+ *
+ * Responses from URLs without a known schema only go through steps 1-2.
+ *
+ * @param url - Request URL (used to pick the operation schema)
+ * @param body - Parsed JSON response
+ * @throws {PayWayResponseError} If any check fails
+ */
+export function validatePayWayResponse(url: string, body: unknown): void {
+  const schema = findSchema(url);
+  const operation = schema?.operation ?? "request";
+
+  if (body == null || typeof body !== "object" || Array.isArray(body)) {
+    throw new PayWayResponseError(
+      `PayWay ${operation} response is not a JSON object`,
+      { code: "", issues: ["response must be an object"], body, url }
+    );
+  }
+
+  const { status } = body as Record<string, any>;
+  let code: string;
+  let message: string | undefined;
+  let tran_id: string | undefined;
+
+  if (typeof status === "number") {
+    // Legacy responses use a numeric status
+    code = String(status);
+    message = (body as Record<string, any>).description;
+  } else if (status != null && typeof status === "object" && status.code != null) {
+    code = String(status.code);
+    message = status.message;
+    tran_id = status.tran_id;
+  } else {
+    throw new PayWayResponseError(
+      `PayWay ${operation} response is missing status.code`,
+      { code: "", issues: ["status.code is required"], body, url }
+    );
+  }
+
+  if (code.trim() === "" || Number(code) !== 0) {
+    throw new PayWayResponseError(
+      `PayWay ${operation} failed: ${code} ${message ?? "Unknown error"}`,
+      { code, tran_id, body, url }
+    );
+  }
+
+  if (!schema) return;
+
+  const fields =
+    typeof status === "number" ? schema.legacyFields ?? schema.fields : schema.fields;
+  const issues = Object.entries(fields)
+    .filter(([path, rule]) => !matchesRule(getPath(body, path), rule))
+    .map(([path, rule]) => `${path} must be ${rule === "array" || rule === "object" ? "an" : "a"} ${rule}`);
+
+  if (issues.length > 0) {
+    throw new PayWayResponseError(
+      `PayWay ${operation} response failed validation: ${issues.join(", ")}`,
+      { code, tran_id, issues, body, url }
+    );
+  }
+}
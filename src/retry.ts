@@ -0,0 +1,98 @@
+import { PayWayAPIError, PayWayNetworkError } from "./errors.js";
+import type { RetryOptions } from "./types.js";
+
+/**
+ * Endpoints that only read data and are safe to send more than once
+ */
+const SAFE_OPERATION_PATHS = [
+  "/payments/check-transaction",
+  "/payments/transaction-list",
+  "/payment-link/detail",
+  "/payment-link/list",
+  "/cof/list",
+  "/settlement/list",
+  "/payout/list",
+];
+
+/**
+ * Default retry policy values
+ */
+export const DEFAULT_RETRY_OPTIONS = {
+  maxAttempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 5000,
+} as const;
+
+/**
+ * Checks whether a request URL points to a read-only (idempotent) operation
+ * @param url - Request URL
+ * @returns True for check-transaction, transaction-list and other read-only endpoints
+ */
+export function isSafeOperation(url: string): boolean {
+  const path = url.split("?")[0];
+  return SAFE_OPERATION_PATHS.some((safePath) => path.endsWith(safePath));
+}
+
+/**
+ * Checks whether an error is transient and worth retrying
+ *
+ * Retries network failures, timeouts, 5xx and 429 responses. Never retries
+ * caller aborts, 4xx responses or PayWay status errors.
+ *
+ * @param error - Error thrown by execute()
+ * @returns True if the request may succeed on another attempt
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof PayWayNetworkError) {
+    return error.code !== "ABORTED";
+  }
+  if (error instanceof PayWayAPIError) {
+    return error.status >= 500 || error.status === 429;
+  }
+  return false;
+}
+
+/**
+ * Computes the delay before the next attempt using exponential backoff with full jitter
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param options - Retry options
+ * @param random - Random number source in [0, 1) (default: Math.random)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoff(
+  attempt: number,
+  options: RetryOptions = {},
+  random: () => number = Math.random
+): number {
+  const {
+    baseDelayMs = DEFAULT_RETRY_OPTIONS.baseDelayMs,
+    maxDelayMs = DEFAULT_RETRY_OPTIONS.maxDelayMs,
+  } = options;
+
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Waits for the given time, rejecting early if the signal aborts
+ * @param ms - Time to wait in milliseconds
+ * @param signal - Optional abort signal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,238 @@
+import { PayWayError } from "./errors.js";
+import { currencyOf, fromMinorUnits, toMinorUnits } from "./money.js";
+import type {
+  ParseSettlementExportOptions,
+  PayoutItem,
+  PayoutVerification,
+  PayoutVerificationItem,
+  SettlementExportRow,
+} from "./types.js";
+
+/**
+ * Header names (normalized) accepted for each typed column, in order of preference
+ */
+const COLUMN_ALIASES: Record<Exclude<keyof SettlementExportRow, "raw">, string[]> = {
+  tran_id: ["tran_id", "transaction_id", "merchant_tran_id", "order_id"],
+  acc: ["acc", "beneficiary_account", "payout_account", "account_number", "account_no", "account"],
+  amt: ["amt", "payout_amount", "net_amount", "settlement_amount", "amount"],
+  currency: ["currency", "ccy"],
+  date: ["date", "payout_date", "settlement_date", "transaction_date"],
+  status: ["status", "payout_status"],
+};
+
+/**
+ * Payout statuses that mean the money did not arrive
+ */
+const UNPAID_STATUSES = ["PENDING", "FAILED", "REJECTED", "CANCELLED", "CANCELED", "REVERSED"];
+
+/**
+ * Turns "Account No." into "account_no"
+ * @private
+ */
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+}
+
+/**
+ * Parses "1,234.50" or "USD 12.00" into a number
+ * @private
+ */
+function parseAmount(value: string): number | undefined {
+  const cleaned = value.replace(/[^0-9.-]/g, "");
+  if (cleaned === "") return undefined;
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+/**
+ * Splits delimited text into rows of cells (RFC 4180 quoting)
+ * @private
+ */
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new PayWayError("Settlement export has an unterminated quoted value", {
+      code: "INVALID_SETTLEMENT_EXPORT",
+    });
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Picks the delimiter that splits the header row into the most columns
+ * @private
+ */
+function detectDelimiter(headerLine: string): string {
+  const counts = [",", ";", "\t"].map((delimiter) => ({
+    delimiter,
+    count: headerLine.split(delimiter).length,
+  }));
+  return counts.reduce((best, current) => (current.count > best.count ? current : best)).delimiter;
+}
+
+/**
+ * Parses a settlement or payout export downloaded from the PayWay merchant portal
+ *
+ * Reads CSV and the tab-separated text Excel saves. Column names are matched
+ * loosely ("Account No.", "Payout Amount", "Transaction ID", ...), Excel's
+ * `sep=` hint line and `="000123"` text cells are understood, and amounts
+ * lose their thousands separators. For .xlsx downloads, save as CSV first.
+ *
+ * @param input - File contents (string or bytes, UTF-8)
+ * @param options - Parse options
+ * @returns One row per record
+ * @throws {PayWayError} With code "INVALID_SETTLEMENT_EXPORT" if the file has no header row or a quote is not closed
+ *
+ * @example
+ * ```typescript
+ * const rows = parseSettlementExport(await fs.readFile("payout-2024-01-16.csv"));
+ * const result = verifyPayouts(order.payout, rows, { tran_id: order.tran_id });
+ * ```
+ */
+export function parseSettlementExport(
+  input: string | Uint8Array,
+  options: ParseSettlementExportOptions = {}
+): SettlementExportRow[] {
+  // Step 1: Decode and drop the BOM and Excel's "sep=" hint
+  let text = typeof input === "string" ? input : new TextDecoder("utf-8").decode(input);
+  text = text.replace(/^\uFEFF/, "");
+
+  let delimiter = options.delimiter;
+  const hint = /^sep=(.)\r?\n/i.exec(text);
+  if (hint) {
+    delimiter ??= hint[1];
+    text = text.slice(hint[0].length);
+  }
+  delimiter ??= detectDelimiter(text.split(/\r?\n/, 1)[0]);
+
+  // Step 2: Split into cells
+  const [headers, ...rows] = parseDelimited(text, delimiter);
+  if (!headers) {
+    throw new PayWayError("Settlement export is empty", { code: "INVALID_SETTLEMENT_EXPORT" });
+  }
+
+  // Step 3: Find the typed columns
+  const normalized = headers.map(normalizeHeader);
+  const columnOf = (aliases: string[]) =>
+    aliases.map((alias) => normalized.indexOf(alias)).find((index) => index >= 0);
+  const columns = Object.fromEntries(
+    Object.entries(COLUMN_ALIASES).map(([field, aliases]) => [field, columnOf(aliases)])
+  ) as Record<keyof typeof COLUMN_ALIASES, number | undefined>;
+
+  // Step 4: Map each row
+  return rows.map((cells) => {
+    const values = cells.map((cell) => cell.trim().replace(/^="(.*)"$/, "$1"));
+    const value = (column: number | undefined) =>
+      column != null && values[column] !== undefined && values[column] !== ""
+        ? values[column]
+        : undefined;
+    const amount = value(columns.amt);
+
+    return {
+      tran_id: value(columns.tran_id),
+      acc: value(columns.acc),
+      amt: amount != null ? parseAmount(amount) : undefined,
+      currency: value(columns.currency),
+      date: value(columns.date),
+      status: value(columns.status),
+      raw: Object.fromEntries(headers.map((header, index) => [header.trim(), values[index] ?? ""])),
+    };
+  });
+}
+
+/**
+ * Confirms each payout account received its amount
+ *
+ * Works with payout statement records (getPayoutStatement) and parsed export
+ * rows alike. Received amounts are summed per account; rows with a PENDING,
+ * FAILED, REJECTED, CANCELLED or REVERSED status are not counted.
+ *
+ * @param expected - Payout sent with the transaction (same array as CompletePreAuthWithPayoutParams.payout)
+ * @param received - Payout records or export rows
+ * @param options - Only count rows of this tran_id (rows without a tran_id are then left out)
+ * @returns Verification per account; ok is true when every account received exactly its amount
+ * @throws {PayWayConfigError} With code "INVALID_AMOUNT" if an expected amt is invalid
+ *
+ * @example
+ * ```typescript
+ * const { data } = await client.getPayoutStatement({ date_range: dayRange(today), tran_id: "ORDER-123" });
+ * const result = verifyPayouts(
+ *   [{ acc: "000133879", amt: 80 }, { acc: "000133880", amt: 20 }],
+ *   data
+ * );
+ * if (!result.ok) console.warn(result.items.filter((item) => item.status !== "received"));
+ * ```
+ */
+export function verifyPayouts(
+  expected: PayoutItem[],
+  received: Array<Pick<SettlementExportRow, "acc" | "amt" | "tran_id" | "status">>,
+  options: { tran_id?: string } = {}
+): PayoutVerification {
+  const account = (acc: string) => acc.replace(/\s+/g, "");
+  const cents = (amount: number) => Math.round(amount * 100);
+
+  // Step 1: Total what each account received (in cents to avoid float drift)
+  const receivedCents = new Map<string, number>();
+  for (const row of received) {
+    if (row.acc == null || row.amt == null) continue;
+    if (options.tran_id != null && row.tran_id !== options.tran_id) continue;
+    if (row.status != null && UNPAID_STATUSES.includes(row.status.trim().toUpperCase())) continue;
+
+    const acc = account(row.acc);
+    receivedCents.set(acc, (receivedCents.get(acc) ?? 0) + cents(row.amt));
+  }
+
+  // Step 2: Total what each account should have received
+  const expectedCents = new Map<string, number>();
+  for (const item of expected) {
+    const acc = account(item.acc);
+    const currency = currencyOf(item.amt);
+    const amt = fromMinorUnits(toMinorUnits(item.amt, currency, `amt for ${acc}`), currency);
+    expectedCents.set(acc, (expectedCents.get(acc) ?? 0) + cents(amt));
+  }
+
+  // Step 3: Compare
+  const items: PayoutVerificationItem[] = [...expectedCents].map(([acc, want]) => {
+    const got = receivedCents.get(acc) ?? 0;
+    const status =
+      got === 0 ? "missing" : got < want ? "short" : got > want ? "over" : "received";
+    return { acc, expected: want / 100, received: got / 100, status };
+  });
+
+  return { ok: items.every((item) => item.status === "received"), items };
+}
@@ -0,0 +1,499 @@
+import { addDays, addMonths, addWeeks, addYears } from "date-fns";
+import { createHash } from "node:crypto";
+import type { PayWayClient } from "./client.js";
+import { MAX_TRAN_ID_LENGTH } from "./clock.js";
+import {
+  PayWayConfigError,
+  PayWayNetworkError,
+  PayWayResponseError,
+  PayWayStatusCode,
+} from "./errors.js";
+import { currencyOf, toMinorUnits } from "./money.js";
+import { isTerminalStatus } from "./polling.js";
+import { getPaymentStatus } from "./responses.js";
+import type {
+  BillingInterval,
+  CheckTransactionResponse,
+  SubscribeParams,
+  Subscription,
+  SubscriptionEvent,
+  SubscriptionManagerOptions,
+  SubscriptionPlan,
+  SubscriptionStore,
+  TokenPurchaseResponse,
+} from "./types.js";
+
+const DEFAULT_DUNNING_DAYS = [1, 3, 5];
+
+const BILLING_INTERVALS: BillingInterval[] = ["day", "week", "month", "year"];
+
+/**
+ * Base-36 characters of the subscription digest in billing tran_ids (about 46 bits)
+ */
+const BILLING_DIGEST_LENGTH = 9;
+
+/**
+ * Billing cycles every tranIdPrefix must leave room for, with every dunning retry
+ * (3 base-36 characters: over 127 years of daily billing)
+ */
+const MIN_BILLING_CYCLES = 36 ** 3 - 1;
+
+/**
+ * Joins the parts of a billing tran_id (cycle and attempt in base 36)
+ * @private
+ */
+function formatBillingTranId(prefix: string, digest: string, cycle: number, attempt: number): string {
+  const retry = attempt > 0 ? `-R${attempt.toString(36).toUpperCase()}` : "";
+  return `${prefix}-${digest}-${cycle.toString(36).toUpperCase()}${retry}`;
+}
+
+/**
+ * Checks whether a failed charge may still have gone through
+ *
+ * True for network errors, duplicate tran_id rejections and purchases
+ * PayWay answered with a non-final status (e.g., "PENDING").
+ * @private
+ */
+function isUnknownOutcome(error: unknown): boolean {
+  if (error instanceof PayWayNetworkError) return true;
+  if (!(error instanceof PayWayResponseError)) return false;
+  if (error.statusCode === PayWayStatusCode.DuplicateTransactionId) return true;
+
+  const status = (error.body as Partial<TokenPurchaseResponse> | undefined)?.transaction_status;
+  return typeof status === "string" && !isTerminalStatus(status);
+}
+
+/**
+ * In-memory subscription store
+ *
+ * Good for tests and a single process. Use a database-backed store in production
+ * so subscriptions survive restarts.
+ */
+export class MemorySubscriptionStore implements SubscriptionStore {
+  private readonly subscriptions = new Map<string, Subscription>();
+
+  get(id: string): Subscription | undefined {
+    const subscription = this.subscriptions.get(id);
+    return subscription && { ...subscription };
+  }
+
+  save(subscription: Subscription): void {
+    this.subscriptions.set(subscription.id, { ...subscription });
+  }
+
+  list(): Subscription[] {
+    return [...this.subscriptions.values()].map((subscription) => ({ ...subscription }));
+  }
+}
+
+/**
+ * Computes the date one billing period after `date`
+ *
+ * Month and year intervals keep the day of month where possible and clamp to
+ * the last day otherwise (Jan 31 + 1 month = Feb 28/29).
+ *
+ * @param date - Start of the period
+ * @param plan - Plan with interval and optional interval_count
+ * @returns Start of the next period
+ */
+export function nextBillingDate(
+  date: Date,
+  plan: Pick<SubscriptionPlan, "interval" | "interval_count">
+): Date {
+  const count = plan.interval_count ?? 1;
+  switch (plan.interval) {
+    case "day":
+      return addDays(date, count);
+    case "week":
+      return addWeeks(date, count);
+    case "month":
+      return addMonths(date, count);
+    case "year":
+      return addYears(date, count);
+  }
+}
+
+/**
+ * Generates the tran_id for one charge attempt of a billing cycle
+ *
+ * The same inputs always give the same ID, so re-running a billing job after
+ * a crash re-sends the same tran_id and PayWay rejects it as a duplicate
+ * instead of charging twice. The subscription ID is hashed to 9 base-36
+ * characters (SHA-256, about 46 bits), so different subscriptions do not share IDs.
+ * The cycle and retry number are written in base 36, so with the default
+ * prefix a plan bills for 46655 cycles (over 127 years daily) within
+ * PayWay's 20 character limit.
+ *
+ * @param subscriptionId - Subscription ID
+ * @param cycle - Billing cycle (starting from 1)
+ * @param attempt - Dunning retry number (0 for the first attempt)
+ * @param prefix - ID prefix (default: "SUB")
+ * @returns Deterministic tran_id (e.g., "SUB-TDLMB5PN1-C" for cycle 12, "SUB-TDLMB5PN1-C-R1" for its first retry)
+ * @throws {PayWayConfigError} With code "TRAN_ID_TOO_LONG" if the ID would be longer
+ *   than PayWay's 20 character limit
+ */
+export function generateBillingTranId(
+  subscriptionId: string,
+  cycle: number,
+  attempt = 0,
+  prefix = "SUB"
+): string {
+  const hash = createHash("sha256").update(subscriptionId).digest();
+  const digest = (hash.readBigUInt64BE(0) % 36n ** BigInt(BILLING_DIGEST_LENGTH))
+    .toString(36)
+    .toUpperCase()
+    .padStart(BILLING_DIGEST_LENGTH, "0");
+
+  const tran_id = formatBillingTranId(prefix, digest, cycle, attempt);
+  if (tran_id.length > MAX_TRAN_ID_LENGTH) {
+    throw new PayWayConfigError(
+      `Billing tran_id "${tran_id}" is longer than ${MAX_TRAN_ID_LENGTH} characters. Use a shorter tranIdPrefix.`,
+      { code: "TRAN_ID_TOO_LONG" }
+    );
+  }
+  return tran_id;
+}
+
+/**
+ * Runs recurring charges against stored cards or accounts
+ *
+ * Plans are defined in code; subscriptions are kept in a pluggable store.
+ * Call runDue() on a schedule (cron, queue worker) to charge every
+ * subscription whose billing date or dunning retry has come.
+ *
+ * @example
+ * ```typescript
+ * const subscriptions = new SubscriptionManager(client, {
+ *   store: new PostgresSubscriptionStore(db),
+ *   onEvent: (event) => console.log(event.type, event.subscription.id)
+ * });
+ *
+ * subscriptions.definePlan({ id: "pro-monthly", interval: "month", amount: 9.99, trial_days: 14 });
+ *
+ * await subscriptions.subscribe({
+ *   id: "SUB-42",
+ *   plan_id: "pro-monthly",
+ *   ctid: "CUSTOMER-42",
+ *   pwt: storedToken
+ * });
+ *
+ * // Every hour
+ * await subscriptions.runDue();
+ * ```
+ */
+export class SubscriptionManager {
+  private readonly plans = new Map<string, SubscriptionPlan>();
+  private readonly store: SubscriptionStore;
+  private readonly dunning: number[];
+
+  /**
+   * @param client - PayWayClient used for token purchases
+   * @param options - Store, dunning schedule, tran_id prefix and event listener
+   * @throws {PayWayConfigError} With code "INVALID_TRAN_ID_PREFIX" if tranIdPrefix has characters
+   *   other than letters, digits, "-" and "_", or leaves no room for 46655 cycles and every retry
+   */
+  constructor(
+    private readonly client: PayWayClient,
+    private readonly options: SubscriptionManagerOptions = {}
+  ) {
+    this.store = options.store ?? new MemorySubscriptionStore();
+    this.dunning = options.dunning ?? DEFAULT_DUNNING_DAYS;
+
+    const prefix = options.tranIdPrefix ?? "SUB";
+    if (!/^[A-Za-z0-9_-]*$/.test(prefix)) {
+      throw new PayWayConfigError(
+        `tranIdPrefix "${prefix}" may only contain letters, digits, "-" and "_"`,
+        { code: "INVALID_TRAN_ID_PREFIX" }
+      );
+    }
+    const longest = formatBillingTranId(
+      prefix,
+      "0".repeat(BILLING_DIGEST_LENGTH),
+      MIN_BILLING_CYCLES,
+      this.dunning.length
+    );
+    if (longest.length > MAX_TRAN_ID_LENGTH) {
+      throw new PayWayConfigError(
+        `tranIdPrefix "${prefix}" is too long: tran_ids such as "${longest}" ` +
+        `would exceed ${MAX_TRAN_ID_LENGTH} characters`,
+        { code: "INVALID_TRAN_ID_PREFIX" }
+      );
+    }
+  }
+
+  /**
+   * Registers a billing plan
+   * @param plan - Plan definition
+   * @throws {PayWayConfigError} If the interval, amount or trial is invalid
+   */
+  definePlan(plan: SubscriptionPlan): void {
+    const issues: string[] = [];
+    if (!plan.id) issues.push("id is required");
+    if (!BILLING_INTERVALS.includes(plan.interval)) {
+      issues.push(`interval must be one of ${BILLING_INTERVALS.join(", ")}`);
+    }
+    if (plan.interval_count != null && !(Number.isInteger(plan.interval_count) && plan.interval_count > 0)) {
+      issues.push("interval_count must be a positive integer");
+    }
+    try {
+      if (toMinorUnits(plan.amount, plan.currency ?? currencyOf(plan.amount)) <= 0) {
+        issues.push("amount must be a positive number");
+      }
+    } catch (error) {
+      if (!(error instanceof PayWayConfigError)) throw error;
+      issues.push(error.message);
+    }
+    if (plan.trial_days != null && !(Number.isFinite(plan.trial_days) && plan.trial_days >= 0)) {
+      issues.push("trial_days must not be negative");
+    }
+
+    if (issues.length > 0) {
+      throw new PayWayConfigError(
+        `Invalid subscription plan "${plan.id}": ${issues.join(", ")}`,
+        { code: "INVALID_PLAN" }
+      );
+    }
+
+    this.plans.set(plan.id, { ...plan });
+  }
+
+  /**
+   * Looks up a registered plan
+   * @param id - Plan ID
+   * @returns The plan, or undefined if it was never defined
+   */
+  getPlan(id: string): SubscriptionPlan | undefined {
+    return this.plans.get(id);
+  }
+
+  /**
+   * Enrolls a customer in a plan
+   *
+   * The first charge is due at the end of the trial, or immediately when the
+   * plan has no trial (on the next runDue()).
+   *
+   * @param params - Subscription parameters
+   * @returns The new subscription
+   * @throws {PayWayConfigError} If the plan is unknown
+   */
+  async subscribe(params: SubscribeParams): Promise<Subscription> {
+    const plan = this.requirePlan(params.plan_id);
+    const start = params.start_date ?? new Date();
+    const trialDays = plan.trial_days ?? 0;
+
+    const subscription: Subscription = {
+      id: params.id,
+      plan_id: plan.id,
+      ctid: params.ctid,
+      pwt: params.pwt,
+      status: trialDays > 0 ? "trialing" : "active",
+      cycle: 1,
+      next_billing_date: addDays(start, trialDays),
+      failed_attempts: 0,
+      next_retry_at: null,
+      created_at: start,
+    };
+
+    await this.store.save(subscription);
+    await this.emit({ type: "subscription.created", subscription });
+    return subscription;
+  }
+
+  /**
+   * Cancels a subscription so it is never charged again
+   * @param id - Subscription ID
+   * @param now - Cancellation time (default: new Date())
+   * @returns The canceled subscription, or undefined if not found
+   */
+  async cancel(id: string, now: Date = new Date()): Promise<Subscription | undefined> {
+    const subscription = await this.store.get(id);
+    if (!subscription || subscription.status === "canceled") return subscription;
+
+    subscription.status = "canceled";
+    subscription.canceled_at = now;
+    subscription.next_retry_at = null;
+
+    await this.store.save(subscription);
+    await this.emit({ type: "subscription.canceled", subscription, reason: "requested" });
+    return subscription;
+  }
+
+  /**
+   * Charges every subscription that is due
+   *
+   * Subscriptions are charged one at a time. A failed charge never stops the run.
+   * Subscriptions that cannot be charged because of a configuration error
+   * (unknown plan, missing RSA key, invalid amount) are left unchanged and
+   * reported with a "charge.skipped" event.
+   *
+   * @param now - Current time (default: new Date())
+   * @returns Subscriptions that were charged (successfully or not)
+   */
+  async runDue(now: Date = new Date()): Promise<Subscription[]> {
+    const charged: Subscription[] = [];
+
+    for (const subscription of await this.store.list()) {
+      if (subscription.status === "canceled") continue;
+
+      const dueAt = subscription.next_retry_at ?? subscription.next_billing_date;
+      if (dueAt.getTime() > now.getTime()) continue;
+
+      try {
+        charged.push(await this.charge(subscription, now));
+      } catch (error) {
+        if (!(error instanceof PayWayConfigError)) throw error;
+        await this.emit({ type: "charge.skipped", subscription, error });
+      }
+    }
+
+    return charged;
+  }
+
+  /**
+   * Charges one billing cycle and updates the subscription
+   * @private
+   */
+  private async charge(subscription: Subscription, now: Date): Promise<Subscription> {
+    const plan = this.requirePlan(subscription.plan_id);
+    const tran_id = generateBillingTranId(
+      subscription.id,
+      subscription.cycle,
+      subscription.failed_attempts,
+      this.options.tranIdPrefix
+    );
+
+    let response: TokenPurchaseResponse | CheckTransactionResponse;
+    try {
+      const purchase = await this.client.purchaseWithToken(
+        {
+          tran_id,
+          ctid: subscription.ctid,
+          pwt: subscription.pwt,
+          amount: plan.amount,
+          currency: plan.currency,
+        },
+        this.options.executeOptions
+      );
+
+      if (purchase.transaction_status !== "APPROVED") {
+        throw new PayWayResponseError(
+          `Token purchase ${tran_id} was ${purchase.transaction_status}`,
+          { code: purchase.status.code, tran_id, body: purchase }
+        );
+      }
+      response = purchase;
+    } catch (error) {
+      // Configuration errors (e.g., no RSA key) are not the customer's fault:
+      // runDue() skips the subscription instead of dunning it
+      if (error instanceof PayWayConfigError) throw error;
+
+      // Step 1: A network error, a duplicate tran_id or a pending purchase can
+      // hide an approved charge (e.g., a retry after a timeout), so ask PayWay
+      // before dunning
+      const confirmation = await this.confirmCharge(tran_id, error);
+      if (!confirmation.approved) {
+        await this.fail(subscription, now, tran_id, error, confirmation.known);
+        return subscription;
+      }
+      response = confirmation.response;
+    }
+
+    // Step 2: Advance to the next cycle
+    subscription.status = "active";
+    subscription.cycle += 1;
+    subscription.next_billing_date = nextBillingDate(subscription.next_billing_date, plan);
+    subscription.failed_attempts = 0;
+    subscription.next_retry_at = null;
+
+    await this.store.save(subscription);
+    await this.emit({ type: "charge.succeeded", subscription, tran_id, response });
+    return subscription;
+  }
+
+  /**
+   * Checks with check-transaction whether a failed charge was in fact approved
+   *
+   * Only unknown outcomes (network errors, duplicate tran_id rejections,
+   * pending purchases) are checked; any other error is a known failure. The
+   * outcome stays unknown until check-transaction reports a final status.
+   * @private
+   */
+  private async confirmCharge(
+    tran_id: string,
+    error: unknown
+  ): Promise<
+    | { approved: true; response: CheckTransactionResponse }
+    | { approved: false; known: boolean }
+  > {
+    if (!isUnknownOutcome(error)) return { approved: false, known: true };
+    const networkError = error instanceof PayWayNetworkError;
+
+    let status: string | undefined;
+    try {
+      const response = await this.client.checkTransaction(tran_id, this.options.executeOptions);
+      status = getPaymentStatus(response);
+      if (status === "APPROVED") return { approved: true, response };
+    } catch {
+      return { approved: false, known: false };
+    }
+    // A pending charge may still go through, and after a network error the
+    // first request may still be in flight: both retry the same tran_id
+    return { approved: false, known: !networkError && status != null && isTerminalStatus(status) };
+  }
+
+  /**
+   * Schedules a dunning retry, or cancels once every retry has failed
+   *
+   * When the outcome is unknown the attempt is not counted, so the retry
+   * re-sends the same tran_id (PayWay rejects it as a duplicate if the
+   * first attempt went through).
+   * @private
+   */
+  private async fail(
+    subscription: Subscription,
+    now: Date,
+    tran_id: string,
+    error: unknown,
+    countsAsAttempt: boolean
+  ): Promise<void> {
+    if (countsAsAttempt) subscription.failed_attempts += 1;
+
+    const retryIndex = Math.max(subscription.failed_attempts - 1, 0);
+    if (retryIndex < this.dunning.length) {
+      subscription.status = "past_due";
+      subscription.next_retry_at = addDays(now, this.dunning[retryIndex]);
+      await this.store.save(subscription);
+      await this.emit({ type: "charge.failed", subscription, tran_id, error });
+    } else {
+      subscription.status = "canceled";
+      subscription.canceled_at = now;
+      subscription.next_retry_at = null;
+      await this.store.save(subscription);
+      await this.emit({ type: "charge.failed", subscription, tran_id, error });
+      await this.emit({ type: "subscription.canceled", subscription, reason: "dunning_exhausted" });
+    }
+  }
+
+  /**
+   * Looks up a plan or throws
+   * @private
+   */
+  private requirePlan(id: string): SubscriptionPlan {
+    const plan = this.plans.get(id);
+    if (!plan) {
+      throw new PayWayConfigError(
+        `Unknown subscription plan "${id}". Call definePlan() first.`,
+        { code: "UNKNOWN_PLAN" }
+      );
+    }
+    return plan;
+  }
+
+  /**
+   * Sends an event to the onEvent listener
+   * @private
+   */
+  private async emit(event: SubscriptionEvent): Promise<void> {
+    await this.options.onEvent?.(event);
+  }
+}
@@ -0,0 +1,119 @@
+import { createPrivateKey, privateDecrypt, constants } from "node:crypto";
+import { PayWayConfigError } from "./errors.js";
+import type { PayWayClient } from "./client.js";
+import type { EncryptedPayloadVerification, PayloadBuilderResponse } from "./types.js";
+
+/**
+ * Throws the decryption error
+ * @private
+ */
+function decryptionFailed(message: string): never {
+  throw new PayWayConfigError(`Cannot decrypt merchant_auth: ${message}`, {
+    code: "INVALID_MERCHANT_AUTH",
+  });
+}
+
+/**
+ * Decrypts merchant_auth with the private key matching the client's RSA public key
+ *
+ * For tests only: ABA holds the real private key. Generate a throwaway key
+ * pair, give the public half to PayWayClient and pass the private half here
+ * to check exactly what a builder encrypted.
+ *
+ * Node no longer allows PKCS#1 v1.5 private decryption, so every block is
+ * decrypted raw and the padding is removed here.
+ *
+ * @param payload - Payload from an encrypted builder, or the merchant_auth value itself
+ * @param private_key - PEM private key matching the client's rsa_public_key
+ * @returns The decrypted JSON object
+ * @throws {PayWayConfigError} With code "INVALID_MERCHANT_AUTH" if the payload has no
+ *   merchant_auth or was not encrypted with the matching public key
+ *
+ * @example
+ * ```typescript
+ * const { publicKey, privateKey } = generateKeyPairSync("rsa", {
+ *   modulusLength: 1024,
+ *   publicKeyEncoding: { type: "spki", format: "pem" },
+ *   privateKeyEncoding: { type: "pkcs8", format: "pem" }
+ * });
+ * const client = new PayWayClient(url, "merchant", "key", publicKey);
+ *
+ * const payload = client.buildRefundPayload({ tran_id: "ORDER-123", refund_amount: 25 });
+ * decryptForTesting(payload, privateKey);
+ * // { mc_id: "merchant", tran_id: "ORDER-123", refund_amount: 25 }
+ * ```
+ */
+export function decryptForTesting(
+  payload: PayloadBuilderResponse | string,
+  private_key: string
+): Record<string, any> {
+  const merchant_auth = typeof payload === "string" ? payload : payload.fields.merchant_auth;
+  if (!merchant_auth) {
+    decryptionFailed("the payload has no merchant_auth field");
+  }
+
+  const key = createPrivateKey(private_key);
+  const blockSize = (key.asymmetricKeyDetails?.modulusLength ?? 0) / 8;
+  const encrypted = Buffer.from(merchant_auth, "base64");
+  if (blockSize === 0 || encrypted.length === 0 || encrypted.length % blockSize !== 0) {
+    decryptionFailed(`expected a multiple of ${blockSize} bytes, got ${encrypted.length}`);
+  }
+
+  // Step 1: Decrypt every block and strip the PKCS#1 v1.5 padding (00 02 <random> 00 <data>)
+  const chunks: Buffer[] = [];
+  for (let i = 0; i < encrypted.length; i += blockSize) {
+    let block: Buffer;
+    try {
+      block = privateDecrypt(
+        { key, padding: constants.RSA_NO_PADDING },
+        encrypted.subarray(i, i + blockSize)
+      );
+    } catch {
+      // A block encrypted with another key can be larger than this key's modulus
+      return decryptionFailed("the private key does not match the public key used to encrypt");
+    }
+    const separator = block.indexOf(0, 2);
+    if (block[0] !== 0 || block[1] !== 2 || separator < 10) {
+      decryptionFailed("the private key does not match the public key used to encrypt");
+    }
+    chunks.push(block.subarray(separator + 1));
+  }
+
+  // Step 2: Decode once all bytes are joined (a character may span two chunks)
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch (error) {
+    return decryptionFailed(`the decrypted data is not JSON (${(error as Error).message})`);
+  }
+}
+
+/**
+ * Checks an encrypted payload end to end: the hash and the encrypted data
+ *
+ * The hash is recomputed over the signed fields in the order they appear
+ * in the payload, which is the order PayWay hashes them for that endpoint.
+ *
+ * @param client - Client that built the payload (its api_key signs the hash)
+ * @param payload - Payload from an encrypted builder
+ * @param private_key - PEM private key matching the client's rsa_public_key
+ * @returns Whether the hash matches, and the decrypted data
+ * @throws {PayWayConfigError} With code "INVALID_MERCHANT_AUTH" if merchant_auth cannot be decrypted
+ *
+ * @example
+ * ```typescript
+ * const payload = client.buildCancelPreAuthPayload({ tran_id: "ORDER-123" });
+ * const { hash_valid, data } = verifyEncryptedPayload(client, payload, privateKey);
+ * // hash_valid: true, data: { mc_id: "merchant", tran_id: "ORDER-123" }
+ * ```
+ */
+export function verifyEncryptedPayload(
+  client: PayWayClient,
+  payload: PayloadBuilderResponse,
+  private_key: string
+): EncryptedPayloadVerification {
+  const { hash, ...signed } = payload.fields;
+  return {
+    hash_valid: hash === payload.hash && hash === client.create_hash(Object.values(signed)),
+    data: decryptForTesting(payload, private_key),
+  };
+}
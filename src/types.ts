@@ -1,3 +1,5 @@
+import type { PayWayConfigError, PayWayValidationError } from "./errors.js";
+
 export type TransactionStatus =
   | "APPROVED"
   | "DECLINED"
@@ -28,6 +30,211 @@ export interface PaywayPaymentStatusCheckResponse {
   datetime: string;
 }
 
+/**
+ * Status block included in every PayWay JSON response
+ */
+export interface PayWayStatus {
+  /**
+   * Status code (e.g., "00" for success)
+   */
+  code: string;
+
+  /**
+   * Human-readable status message
+   */
+  message: string;
+
+  /**
+   * Transaction ID the response refers to (when applicable)
+   */
+  tran_id?: string;
+
+  /**
+   * Language of the message (e.g., "en")
+   */
+  lang?: string;
+}
+
+/**
+ * Transaction details returned by check-transaction
+ */
+export interface CheckTransactionData {
+  /**
+   * Payment status code (0 = approved)
+   */
+  payment_status_code: number;
+
+  /**
+   * Payment status (e.g., "APPROVED", "PENDING", "DECLINED")
+   */
+  payment_status: TransactionStatus;
+
+  /**
+   * Amount after discounts and refunds
+   */
+  total_amount: number;
+
+  /**
+   * Amount originally requested
+   */
+  original_amount: number;
+
+  /**
+   * Amount refunded so far
+   */
+  refund_amount: number;
+
+  /**
+   * Discount applied to the transaction
+   */
+  discount_amount: number;
+
+  /**
+   * Amount charged to the payer
+   */
+  payment_amount: number;
+
+  /**
+   * Currency the payer was charged in
+   */
+  payment_currency: string;
+
+  /**
+   * Approval code from the issuer
+   */
+  apv?: string;
+
+  /**
+   * Transaction date (e.g., "2024-01-15 10:30:00")
+   */
+  transaction_date?: string;
+}
+
+/**
+ * Response from check-transaction
+ */
+export interface CheckTransactionResponse {
+  /**
+   * Transaction details (absent when the transaction is not found)
+   */
+  data?: CheckTransactionData;
+
+  /**
+   * Operation status details
+   */
+  status: PayWayStatus;
+}
+
+/**
+ * Single transaction record returned by transaction-list
+ */
+export interface TransactionRecord {
+  /**
+   * Transaction ID
+   */
+  transaction_id: string;
+
+  /**
+   * Transaction date (e.g., "2024-01-15 10:30:00")
+   */
+  transaction_date: string;
+
+  /**
+   * Approval code from the issuer
+   */
+  apv?: string;
+
+  /**
+   * Payment status (e.g., "APPROVED", "PRE-AUTH", "REFUNDED")
+   */
+  payment_status: TransactionStatus;
+
+  /**
+   * Payment status code (0 = approved)
+   */
+  payment_status_code?: number;
+
+  /**
+   * Amount originally requested
+   */
+  original_amount: number;
+
+  /**
+   * Currency originally requested
+   */
+  original_currency: string;
+
+  /**
+   * Amount charged to the payer
+   */
+  payment_amount?: number;
+
+  /**
+   * Currency the payer was charged in
+   */
+  payment_currency?: string;
+
+  /**
+   * Amount after discounts and refunds
+   */
+  total_amount: number;
+
+  /**
+   * Amount refunded so far
+   */
+  refund_amount?: number;
+
+  /**
+   * Discount applied to the transaction
+   */
+  discount_amount?: number;
+
+  /**
+   * Payment method used (e.g., "ABA PAY", "VISA")
+   */
+  payment_type?: string;
+
+  /**
+   * Payer account or masked card number
+   */
+  payer_account?: string;
+
+  /**
+   * Issuing bank name
+   */
+  bank_name?: string;
+
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  phone?: string;
+}
+
+/**
+ * Response from transaction-list
+ */
+export interface TransactionListResponse {
+  /**
+   * Transactions matching the filter
+   */
+  data: TransactionRecord[];
+
+  /**
+   * Current page number
+   */
+  page?: string | number;
+
+  /**
+   * Number of records per page
+   */
+  pagination?: string | number;
+
+  /**
+   * Operation status details
+   */
+  status: PayWayStatus;
+}
+
 export type PaymentOption =
   | "cards"
   | "abapay_khqr"
@@ -44,10 +251,48 @@ export type ViewType =
   | "popup"        // Display as bottom sheet on mobile, modal on desktop
   | string & {}
 
+/**
+ * Amount in minor units (cents for USD, riel for KHR)
+ *
+ * Create with money() or moneyFromMinor(); a Money can't carry more
+ * precision than its currency allows.
+ */
+export interface Money {
+  currency: "USD" | "KHR";
+
+  /**
+   * Whole number of cents (USD) or riel (KHR)
+   */
+  minor_units: number;
+}
+
+/**
+ * Amount accepted by the builders: a number, a decimal string or Money
+ * Amounts with more decimals than the currency allows are rejected.
+ */
+export type AmountInput = number | string | Money;
+
+/**
+ * Line item of a purchase
+ */
+export interface CartItem {
+  name: string;
+
+  /**
+   * Number of units (positive integer)
+   */
+  quantity: number;
+
+  /**
+   * Unit price in the transaction currency (number, decimal string or Money)
+   */
+  price: AmountInput;
+}
+
 export interface CreateTransactionParams {
   tran_id?: string;
   payment_option?: PaymentOption;
-  amount?: number | string;
+  amount?: AmountInput;
   currency?: "USD" | "KHR";
   return_url?: string;
   return_deeplink?: { android_scheme: string; ios_scheme: string };
@@ -56,14 +301,29 @@ export interface CreateTransactionParams {
   lastname?: string;
   email?: string;
   phone?: string;
-  items?: string
-  shipping?: number
+
+  /**
+   * Line items shown on the checkout page
+   * Pass CartItem[] to have it validated and encoded, or a pre-encoded string.
+   * When amount is omitted it is computed from the items plus shipping.
+   */
+  items?: string | CartItem[]
+
+  /**
+   * Shipping fee, part of the computed amount
+   */
+  shipping?: AmountInput
   cancel_url?: string
   skip_success_page?: number | boolean 
   custom_fields?: string
   return_params?: string
   payment_gate?: number
-  payout?: string
+
+  /**
+   * Split of the amount between beneficiary accounts
+   * Pass PayoutSplit[] to have it validated and encoded, or a pre-encoded string.
+   */
+  payout?: string | PayoutSplit[]
   additional_params?: string
   lifetime?: number
   google_play_token?: string
@@ -75,20 +335,90 @@ export interface CheckTransactionParams {
   tran_id: string;
 }
 
+/**
+ * Inclusive date range
+ */
+export interface DateRange {
+  /**
+   * Start of the range (Date or yyyyMMddHHmmss string)
+   */
+  from: Date | string;
+
+  /**
+   * End of the range (Date or yyyyMMddHHmmss string)
+   */
+  to: Date | string;
+}
+
+/**
+ * Amount range filter (inclusive)
+ */
+export interface AmountRange {
+  min?: AmountInput;
+  max?: AmountInput;
+}
+
+/**
+ * Transaction list filter
+ *
+ * Every field is sent to PayWay and included in the hash, in the order
+ * listed here (see serializeTransactionListFilter).
+ */
 export interface TransactionListParams {
-  limit_additional_params?: string
-  limit_limit_amount?: number
-  limit_limit_currency?: string
-  limit_limit_payment_option?: PaymentOption
-  limit_limit_view_type?: ViewType
-  limit_limit_type?: "purchase" | "pre-auth"
-  limit_limit_firstname?: string
-  limit_limit_lastname?: string
-  from_date?: string;
-  to_date?: string;
-  from_amount?: string | number;
-  to_amount?: string | number;
-  status?: TransactionStatus;
+  /**
+   * Start date (Date or yyyyMMddHHmmss string)
+   */
+  from_date?: string | Date;
+
+  /**
+   * End date (Date or yyyyMMddHHmmss string)
+   */
+  to_date?: string | Date;
+
+  /**
+   * Shorthand for from_date / to_date (e.g., monthRange(new Date()))
+   */
+  date_range?: DateRange;
+
+  /**
+   * Minimum amount
+   */
+  from_amount?: AmountInput;
+
+  /**
+   * Maximum amount
+   */
+  to_amount?: AmountInput;
+
+  /**
+   * Shorthand for from_amount / to_amount
+   */
+  amount_range?: AmountRange;
+
+  /**
+   * One status, or several (sent comma-separated)
+   */
+  status?: TransactionStatus | TransactionStatus[];
+
+  /**
+   * One payment option, or several (sent comma-separated)
+   */
+  payment_option?: PaymentOption | PaymentOption[];
+
+  /**
+   * Currency of the transactions
+   */
+  currency?: "USD" | "KHR";
+
+  /**
+   * Page number (starting from 1)
+   */
+  page?: number;
+
+  /**
+   * Number of records per page (sent as "pagination")
+   */
+  page_size?: number;
 }
 
 /**
@@ -115,97 +445,406 @@ export interface PayloadBuilderResponse {
    * HTTP method (always "POST" for PayWay)
    */
   method: "POST";
-}
 
-/**
- * Options for executing server-to-server API calls
- */
-export interface ExecuteOptions {
   /**
-   * Allow HTML responses (default: false)
-   * 
-   * Set to true if you intentionally want to receive HTML responses.
-   * Normally, server-to-server calls should only receive JSON.
-   * 
-   * WARNING: Using payment_option "abapay" returns HTML and should use
-   * client-side form submission instead of server-to-server execution.
+   * Files to upload with the form (not included in the hash)
    */
-  allowHtml?: boolean;
+  files?: Record<string, PayloadFile>;
 }
 
 /**
- * Error thrown when PayWay API request fails
- * 
- * Contains detailed information about the error including
- * HTTP status code and response body from ABA PayWay
+ * Options for renderCheckoutForm()
  */
-export interface PayWayAPIError extends Error {
+export interface CheckoutFormOptions {
   /**
-   * HTTP status code (e.g., 403, 500)
+   * Submit the form as soon as the page loads (default: true)
+   * When false, a submit button is rendered instead.
    */
-  status: number;
-  
+  autoSubmit?: boolean;
+
   /**
-   * HTTP status text (e.g., "Forbidden", "Internal Server Error")
+   * CSP nonce added to every script tag
    */
-  statusText: string;
-  
+  nonce?: string;
+
+  /**
+   * Form target (default: current page; "aba_webservice" for popup)
+   * Use "_blank" with autoSubmit: false to open a new tab.
+   */
+  target?: string;
+
+  /**
+   * Label of the submit button (default: "Continue to ABA PayWay")
+   */
+  buttonLabel?: string;
+
   /**
-   * Response body from ABA PayWay API
-   * Can be JSON object with error details or plain text
+   * Form element id (default: "payway_checkout"; "aba_merchant_request" for popup)
    */
-  body: any;
+  formId?: string;
+
+  /**
+   * ABA checkout plugin used for popup (default: /plugins/checkout2-0.js on the payload's host)
+   */
+  pluginUrl?: string;
 }
 
 /**
- * Parameters for completing a pre-auth transaction
+ * Options for checkoutFormResponse()
  */
-export interface CompletePreAuthParams {
+export interface CheckoutResponseOptions extends CheckoutFormOptions {
   /**
-   * Transaction ID of the pre-authorized transaction
+   * HTTP status (default: 200)
    */
-  tran_id: string;
-  
+  status?: number;
+
   /**
-   * Amount to complete (required)
-   * For card payments: can be up to 10% more than original amount
+   * Extra response headers (e.g., Content-Security-Policy)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Page title (default: "Redirecting to ABA PayWay")
    */
-  complete_amount: number | string;
+  title?: string;
 }
 
 /**
- * Individual payout item for distributing funds
+ * Order of the signed fields in an encrypted (merchant_auth) request
+ * - "auth_first": merchant_auth, request_time, merchant_id (pre-auth, card-on-file purchase)
+ * - "time_first": request_time, merchant_id, merchant_auth (refund)
  */
-export interface PayoutItem {
+export type EncryptedHashOrder = "auth_first" | "time_first";
+
+/**
+ * Result of verifyEncryptedPayload()
+ */
+export interface EncryptedPayloadVerification {
   /**
-   * Account number to receive payout
+   * Whether the hash matches the signed fields
    */
-  acc: string;
-  
+  hash_valid: boolean;
+
   /**
-   * Amount to payout to this account
+   * Decrypted merchant_auth
    */
-  amt: number;
+  data: Record<string, any>;
 }
 
 /**
- * Parameters for completing a pre-auth transaction with payout
+ * File sent as a multipart form field
  */
-export interface CompletePreAuthWithPayoutParams {
+export interface PayloadFile {
   /**
-   * Transaction ID of the pre-authorized transaction
+   * File content
    */
-  tran_id: string;
+  content: Blob | Uint8Array;
+
+  /**
+   * File name sent to PayWay (e.g., "invoice.png")
+   */
+  filename: string;
+
+  /**
+   * MIME type (e.g., "image/png")
+   */
+  contentType?: string;
+}
+
+/**
+ * Fetch-compatible function used to send requests
+ * 
+ * Matches the global fetch, so undici's fetch, a proxy-aware fetch or a
+ * test double can be passed directly.
+ */
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Transport options shared by the client and individual calls
+ */
+export interface TransportOptions {
+  /**
+   * Custom fetch implementation (default: global fetch)
+   */
+  fetch?: FetchLike;
+
+  /**
+   * Abort the request after this many milliseconds (default: no timeout)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Extra HTTP headers sent with every request
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Retry policy for server-to-server calls
+ * 
+ * Failed attempts are retried with exponential backoff and full jitter,
+ * only on network errors, timeouts, 5xx and 429 responses.
+ */
+export interface RetryOptions {
+  /**
+   * Total number of attempts, including the first one (default: 3)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay ceiling for the first retry in milliseconds (default: 250)
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Maximum delay between attempts in milliseconds (default: 5000)
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Called before each retry (useful for logging and metrics)
+   */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Options for creating a PayWayClient
+ */
+export interface PayWayClientOptions extends TransportOptions {
+  /**
+   * Default retry policy (default: no retries)
+   * 
+   * Only applied to read-only operations (check-transaction, transaction-list).
+   * Purchases, pre-auth and refunds are never retried unless the call itself
+   * passes a retry policy.
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * How request parameters are checked against ABA's field rules before signing (default: "warn")
+   */
+  validation?: ValidationMode;
+
+  /**
+   * Receives validation failures in "warn" mode
+   * Without it "warn" reports nothing: the library never logs on its own.
+   */
+  onValidationWarning?: (error: PayWayValidationError) => void;
+
+  /**
+   * Source of the current time for req_time / request_time (default: system clock)
+   * Pass fixedClock(...) for reproducible signatures in tests.
+   */
+  clock?: Clock;
+}
+
+/**
+ * Returns the current time
+ */
+export type Clock = () => Date;
+
+/**
+ * Options for generateTranId()
+ */
+export interface GenerateTranIdOptions {
+  /**
+   * Fixed start of the ID (letters, digits, "-" and "_"; e.g., "ORD-")
+   */
+  prefix?: string;
+
+  /**
+   * Source of the time component (default: system clock)
+   */
+  clock?: Clock;
+
+  /**
+   * Total length, capped at ABA's limit of 20 (default: 20)
+   */
+  length?: number;
+}
+
+/**
+ * Request validation mode
+ * - "strict": throw PayWayValidationError listing every violation
+ * - "warn": report the violations and sign the payload anyway
+ * - "off": skip validation
+ */
+export type ValidationMode = "strict" | "warn" | "off";
+
+/**
+ * PayWay environment: a known preset or a custom HTTPS base URL
+ */
+export type PayWayEnvironment = "sandbox" | "production" | { baseUrl: string };
+
+/**
+ * Configuration for PayWayClient.create()
+ */
+export interface PayWayClientConfig extends PayWayClientOptions {
+  /**
+   * "sandbox", "production" or { baseUrl } for a custom HTTPS endpoint
+   */
+  environment: PayWayEnvironment;
+
+  /**
+   * Your merchant ID from ABA Bank
+   */
+  merchantId: string;
+
+  /**
+   * Your API key from ABA Bank
+   */
+  apiKey: string;
+
+  /**
+   * ABA Bank's RSA public key in PEM format (required for pre-auth and refund operations)
+   */
+  rsaPublicKey?: string;
+}
+
+/**
+ * Options for executing server-to-server API calls
+ * 
+ * Transport options override the ones passed to the PayWayClient constructor.
+ * Headers are merged, with per-call headers taking precedence.
+ */
+export interface ExecuteOptions extends TransportOptions {
+  /**
+   * Signal to cancel the request (e.g., when the incoming HTTP request is aborted)
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Retry policy for this call
+   * 
+   * Passing a policy here opts in to retries for ANY operation, including
+   * purchases and pre-auth completion. Pass false to disable the client's
+   * default policy. Retries need a payload builder function (not a built
+   * payload) so every attempt is re-signed with a fresh req_time.
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Allow HTML responses (default: false)
+   * 
+   * Set to true if you intentionally want to receive HTML responses.
+   * Normally, server-to-server calls should only receive JSON.
+   * 
+   * WARNING: Using payment_option "abapay" returns HTML and should use
+   * client-side form submission instead of server-to-server execution.
+   */
+  allowHtml?: boolean;
+
+  /**
+   * Validate JSON responses before returning them (default: true)
+   * 
+   * When enabled, a response whose status.code is not "00" or whose shape
+   * does not match the operation throws a PayWayResponseError, even if
+   * the HTTP status was 200.
+   */
+  validateResponse?: boolean;
+}
+
+/**
+ * Parameters for completing a pre-auth transaction
+ */
+export interface CompletePreAuthParams {
+  /**
+   * Transaction ID of the pre-authorized transaction
+   */
+  tran_id: string;
+  
+  /**
+   * Amount to complete (required)
+   * For card payments: can be up to 10% more than original amount
+   */
+  complete_amount: AmountInput;
+
+  /**
+   * Amount originally authorized
+   * When given, complete_amount is checked against the +10% limit before sending.
+   */
+  authorized_amount?: AmountInput;
+
+  /**
+   * Currency of the pre-auth, used to check decimal places (default: USD, or the Money's currency)
+   * Not sent to PayWay.
+   */
+  currency?: "USD" | "KHR";
+}
+
+/**
+ * Individual payout item for distributing funds
+ */
+export interface PayoutItem {
+  /**
+   * Account number to receive payout
+   */
+  acc: string;
+  
+  /**
+   * Amount to payout to this account (number, decimal string or Money)
+   */
+  amt: AmountInput;
+}
+
+/**
+ * Payout item with its amount resolved to a number, as sent to PayWay
+ */
+export interface ResolvedPayoutItem extends PayoutItem {
+  amt: number;
+}
+
+/**
+ * Payout to an account as a percentage of the transaction amount
+ */
+export interface PayoutPercentItem {
+  /**
+   * Account number to receive payout
+   */
+  acc: string;
+
+  /**
+   * Share of the amount (e.g., 12.5 for 12.5%)
+   */
+  percent: number;
+}
+
+/**
+ * One beneficiary of a purchase payout: a fixed amount or a percentage
+ */
+export type PayoutSplit = PayoutItem | PayoutPercentItem;
+
+/**
+ * Parameters for completing a pre-auth transaction with payout
+ */
+export interface CompletePreAuthWithPayoutParams {
+  /**
+   * Transaction ID of the pre-authorized transaction
+   */
+  tran_id: string;
   
   /**
    * Amount to complete (required)
    * For card payments: can be up to 10% more than original amount
    */
-  complete_amount: number | string;
+  complete_amount: AmountInput;
+
+  /**
+   * Amount originally authorized
+   * When given, complete_amount is checked against the +10% limit before sending.
+   */
+  authorized_amount?: AmountInput;
+
+  /**
+   * Currency of the pre-auth, used to check decimal places (default: USD, or the Money's currency)
+   * Not sent to PayWay.
+   */
+  currency?: "USD" | "KHR";
   
   /**
    * Payout array containing account and amount for each beneficiary
-   * Funds will be distributed according to this array
+   * Funds will be distributed according to this array; the amounts may not add up
+   * to more than complete_amount.
    */
   payout: PayoutItem[];
 }
@@ -256,3 +895,1321 @@ export interface PreAuthResponse {
     message: string;
   };
 }
+
+/**
+ * Parameters for refunding a completed transaction
+ */
+export interface RefundParams {
+  /**
+   * Transaction ID of the transaction to refund
+   */
+  tran_id: string;
+
+  /**
+   * Amount to refund (optional)
+   * Omit to refund the full remaining amount, or pass a smaller value for a partial refund
+   */
+  refund_amount?: AmountInput;
+
+  /**
+   * Currency of the transaction, used to check decimal places (default: USD, or the Money's currency)
+   * Not sent to PayWay.
+   */
+  currency?: "USD" | "KHR";
+}
+
+/**
+ * Response from refund operations
+ */
+export interface RefundResponse {
+  /**
+   * Original transaction amount
+   */
+  grand_total?: number;
+
+  /**
+   * Total amount refunded so far (including this refund)
+   */
+  total_refunded?: number;
+
+  /**
+   * Currency code
+   */
+  currency?: string;
+
+  /**
+   * Transaction status after the operation
+   * - "REFUNDED" once the refund has been accepted
+   */
+  transaction_status: "REFUNDED" | string;
+
+  /**
+   * Operation status details
+   */
+  status: {
+    /**
+     * Status code (e.g., "00" for success)
+     */
+    code: string;
+
+    /**
+     * Human-readable status message
+     */
+    message: string;
+  };
+}
+
+/**
+ * Parameters for the ABA "generate QR" endpoint (KHQR)
+ */
+export interface GenerateQRParams {
+  /**
+   * Unique transaction ID
+   */
+  tran_id: string;
+
+  /**
+   * Amount to charge
+   */
+  amount: AmountInput;
+
+  /**
+   * Currency (default: USD)
+   */
+  currency?: "USD" | "KHR";
+
+  /**
+   * Minutes until the QR code expires (3 to 43200)
+   */
+  lifetime?: number;
+
+  /**
+   * URL PayWay notifies after payment (base64 encoded automatically)
+   */
+  callback_url?: string;
+
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  phone?: string;
+
+  /**
+   * Line items (CartItem[] is validated against amount and encoded)
+   */
+  items?: string | CartItem[];
+
+  /**
+   * Transaction type (default: purchase)
+   */
+  purchase_type?: "purchase" | "pre-auth";
+
+  /**
+   * Payment option (default: abapay_khqr)
+   */
+  payment_option?: "abapay_khqr" | string & {};
+
+  /**
+   * Deep link to return to your app after payment
+   */
+  return_deeplink?: { android_scheme: string; ios_scheme: string };
+
+  custom_fields?: string;
+  return_params?: string;
+
+  /**
+   * Split of the amount between beneficiary accounts (see CreateTransactionParams.payout)
+   */
+  payout?: string | PayoutSplit[];
+
+  /**
+   * Template of the returned QR image (e.g., "template3_color")
+   */
+  qr_image_template?: string;
+}
+
+/**
+ * Response from the generate QR endpoint
+ */
+export interface GenerateQRResponse {
+  /**
+   * KHQR string (render with renderQRToSVG / renderQRToPNGDataUri)
+   */
+  qr_string: string;
+
+  /**
+   * QR image rendered by PayWay (base64 data URI)
+   */
+  qr_image?: string;
+
+  /**
+   * Deep link that opens ABA Mobile directly
+   */
+  abapay_deeplink?: string;
+
+  app_store?: string;
+  play_store?: string;
+  amount?: number;
+  currency?: string;
+
+  status: PayWayStatus;
+}
+
+/**
+ * QR code error correction level
+ * - "L": ~7%, "M": ~15%, "Q": ~25%, "H": ~30% of the code can be damaged
+ */
+export type QRErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+/**
+ * Encoded QR code
+ */
+export interface QRMatrix {
+  /**
+   * QR version (1 to 40)
+   */
+  version: number;
+
+  /**
+   * Modules per side (version * 4 + 17), excluding the quiet zone
+   */
+  size: number;
+
+  /**
+   * modules[y][x] is true for dark modules
+   */
+  modules: boolean[][];
+}
+
+/**
+ * Options shared by all QR renderers
+ */
+export interface QRRenderOptions {
+  /**
+   * Error correction level (default: "M")
+   */
+  errorCorrection?: QRErrorCorrectionLevel;
+
+  /**
+   * Quiet zone around the code in modules (default: 4, or 2 for ASCII)
+   */
+  margin?: number;
+}
+
+/**
+ * Options for renderQRToSVG
+ */
+export interface QRSvgOptions extends QRRenderOptions {
+  /**
+   * Width and height in pixels (default: 8 pixels per module)
+   */
+  size?: number;
+
+  /**
+   * Color of dark modules (default: "#000000")
+   */
+  foreground?: string;
+
+  /**
+   * Background color (default: "#ffffff")
+   */
+  background?: string;
+}
+
+/**
+ * Options for renderQRToPNGDataUri
+ */
+export interface QRPngOptions extends QRRenderOptions {
+  /**
+   * Pixels per module (default: 8)
+   */
+  scale?: number;
+}
+
+/**
+ * Options for renderQRToASCII
+ */
+export interface QRAsciiOptions extends QRRenderOptions {
+  /**
+   * Draw light modules instead of dark ones, for light text on a dark terminal
+   */
+  invert?: boolean;
+}
+
+/**
+ * Card brand of a linked card or account
+ */
+export type CardBrand =
+  | "VISA"
+  | "MASTERCARD"
+  | "UPI"
+  | "JCB"
+  | "ABA"          // Linked ABA account (account-on-file)
+  | string & {}
+
+/**
+ * Masked card or account number (e.g., "4111-XXXX-XXXX-1111")
+ * Safe to show to the customer and to store
+ */
+export type MaskedPan = string;
+
+/**
+ * Card or ABA account saved on file for a consumer
+ */
+export interface ConsumerToken {
+  /**
+   * Consumer token ID (your own customer identifier)
+   */
+  ctid: string;
+
+  /**
+   * PayWay token used to charge the card or account
+   */
+  pwt: string;
+
+  /**
+   * Masked card or account number
+   */
+  mask_pan: MaskedPan;
+
+  /**
+   * Card brand
+   */
+  card_type: CardBrand;
+
+  /**
+   * Card expiry (e.g., "12/27")
+   */
+  expiry?: string;
+
+  /**
+   * Token status (e.g., "ACTIVE")
+   */
+  status?: string;
+}
+
+/**
+ * Parameters for linking a card (credentials-on-file)
+ * The customer enters card details on the PayWay checkout page.
+ */
+export interface LinkCardParams {
+  /**
+   * Consumer token ID (your own customer identifier)
+   */
+  ctid: string;
+
+  /**
+   * Value returned unchanged in the pushback notification
+   */
+  return_param?: string;
+
+  firstname?: string;
+  lastname?: string;
+  email?: string;
+  phone?: string;
+
+  /**
+   * URL PayWay notifies once the card is linked (base64 encoded automatically)
+   */
+  return_url?: string;
+
+  /**
+   * URL the customer is sent to after linking (base64 encoded automatically)
+   */
+  continue_add_card_success_url?: string;
+}
+
+/**
+ * Parameters for linking an ABA account (account-on-file)
+ * The customer approves the link in the ABA Mobile app.
+ */
+export interface LinkAccountParams {
+  /**
+   * Consumer token ID (your own customer identifier)
+   */
+  ctid: string;
+
+  /**
+   * Value returned unchanged in the pushback notification
+   */
+  return_param?: string;
+
+  /**
+   * URL PayWay notifies once the account is linked (base64 encoded automatically)
+   */
+  return_url?: string;
+
+  /**
+   * Deep link to return to your app after approval
+   */
+  return_deeplink?: { android_scheme: string; ios_scheme: string };
+}
+
+/**
+ * Response from linking an ABA account
+ */
+export interface LinkAccountResponse {
+  /**
+   * KHQR string to render for the customer to scan
+   */
+  qr_string: string;
+
+  /**
+   * Deep link that opens ABA Mobile directly
+   */
+  deeplink?: string;
+
+  /**
+   * Seconds until the QR code expires
+   */
+  expire_in?: number;
+
+  status: PayWayStatus;
+}
+
+/**
+ * Parameters for querying linked tokens
+ */
+export interface ListTokensParams {
+  /**
+   * Consumer token ID
+   */
+  ctid: string;
+}
+
+/**
+ * Response from querying linked tokens
+ */
+export interface ConsumerTokenListResponse {
+  data: ConsumerToken[];
+  status: PayWayStatus;
+}
+
+/**
+ * Parameters for removing a linked token
+ */
+export interface RemoveTokenParams {
+  /**
+   * Consumer token ID
+   */
+  ctid: string;
+
+  /**
+   * PayWay token to remove
+   */
+  pwt: string;
+}
+
+/**
+ * Response from removing a linked token
+ */
+export interface RemoveTokenResponse {
+  status: PayWayStatus;
+}
+
+/**
+ * Parameters for charging a stored card or account without a redirect
+ */
+export interface TokenPurchaseParams {
+  /**
+   * Unique transaction ID
+   */
+  tran_id: string;
+
+  /**
+   * Consumer token ID
+   */
+  ctid: string;
+
+  /**
+   * PayWay token to charge
+   */
+  pwt: string;
+
+  /**
+   * Amount to charge
+   */
+  amount: AmountInput;
+
+  /**
+   * Currency (default: USD)
+   */
+  currency?: "USD" | "KHR";
+
+  /**
+   * Value returned unchanged in the pushback notification
+   */
+  return_params?: string;
+}
+
+/**
+ * Response from a token purchase
+ */
+export interface TokenPurchaseResponse {
+  /**
+   * Transaction status (e.g., "APPROVED")
+   */
+  transaction_status: TransactionStatus;
+
+  tran_id?: string;
+  amount?: number;
+  currency?: string;
+
+  status: PayWayStatus;
+}
+
+/**
+ * Pushback notification PayWay POSTs to your return_url after payment
+ *
+ * All values are normalized to strings, whether the body arrived as
+ * form-encoded data or JSON.
+ */
+export interface PaywayCallbackPayload {
+  /**
+   * Transaction ID of the payment
+   */
+  tran_id: string;
+
+  /**
+   * Approval code from the issuer (present for approved payments)
+   */
+  apv?: string;
+
+  /**
+   * Payment status code (e.g., "0" or "00" for approved)
+   */
+  status: string;
+
+  /**
+   * return_params echoed back from the purchase request
+   */
+  return_params?: string;
+
+  /**
+   * Request time in yyyyMMddHHmmss format (used for staleness checks)
+   */
+  req_time?: string;
+
+  /**
+   * Merchant ID the notification belongs to
+   */
+  merchant_id?: string;
+
+  /**
+   * HMAC-SHA512 signature of all other values, in the order received
+   */
+  hash?: string;
+
+  /**
+   * Any additional fields sent by PayWay
+   */
+  [key: string]: string | undefined;
+}
+
+/**
+ * Raw callback body as received by an HTTP framework
+ * - string / Buffer: form-encoded or JSON text
+ * - URLSearchParams: already parsed form data
+ * - object: already parsed JSON or form body
+ */
+export type CallbackBody =
+  | string
+  | Uint8Array
+  | URLSearchParams
+  | Record<string, unknown>;
+
+/**
+ * Storage used to detect replayed callback notifications
+ *
+ * Implement this with Redis (SET NX EX) or a database unique index when
+ * running more than one server process.
+ */
+export interface CallbackReplayStore {
+  /**
+   * Records a notification key
+   * @param key - Unique key for the notification
+   * @param ttlSeconds - How long the key must be remembered
+   * @returns false if the key was already recorded (replay), true otherwise
+   */
+  add(key: string, ttlSeconds: number): boolean | Promise<boolean>;
+}
+
+/**
+ * Options for verifying callback notifications
+ */
+export interface VerifyCallbackOptions {
+  /**
+   * Maximum age of the notification in seconds, based on req_time (default: 300)
+   *
+   * Set to null to skip the staleness check (e.g., when PayWay does not send req_time).
+   */
+  maxAgeSeconds?: number | null;
+
+  /**
+   * Store used to reject replayed notifications
+   *
+   * Defaults to an in-memory store scoped to the client. Pass null to disable.
+   */
+  replayStore?: CallbackReplayStore | null;
+
+  /**
+   * Content-Type of the raw body (used to choose between JSON and form parsing)
+   */
+  contentType?: string;
+
+  /**
+   * Current time (default: the client's clock), useful for testing
+   */
+  now?: Date;
+
+  /**
+   * Maximum body size in bytes when the SDK reads the request itself
+   * (verifyNodeCallback, verifyFetchCallback, Express without a body parser) (default: 65536)
+   */
+  maxBodyBytes?: number;
+}
+
+/**
+ * Payment link status
+ */
+export type PaymentLinkStatus =
+  | "ACTIVE"
+  | "INACTIVE"
+  | "EXPIRED"
+  | "COMPLETED"
+  | string & {}
+
+/**
+ * Image shown on the payment link checkout page
+ */
+export interface PaymentLinkImage extends PayloadFile {
+  /**
+   * Image MIME type
+   */
+  contentType?: "image/png" | "image/jpeg" | "image/gif" | "image/webp" | string & {};
+}
+
+/**
+ * Parameters for creating a payment link
+ */
+export interface CreatePaymentLinkParams {
+  /**
+   * Title shown to the payer
+   */
+  title: string;
+
+  /**
+   * Amount to charge per payment
+   */
+  amount: number | string;
+
+  /**
+   * Currency (default: USD)
+   */
+  currency?: "USD" | "KHR";
+
+  /**
+   * Description shown to the payer
+   */
+  description?: string;
+
+  /**
+   * Maximum number of payments accepted before the link completes
+   */
+  payment_limit?: number;
+
+  /**
+   * Expiry date (Date or Unix timestamp in seconds)
+   */
+  expired_date?: Date | number;
+
+  /**
+   * URL PayWay notifies after each payment (will be base64 encoded)
+   */
+  return_url?: string;
+
+  /**
+   * Your own reference (e.g., invoice number)
+   */
+  merchant_ref_no?: string;
+
+  /**
+   * Image shown on the checkout page
+   */
+  image?: PaymentLinkImage;
+}
+
+/**
+ * Parameters for updating a payment link
+ * Only the provided fields are changed.
+ */
+export interface UpdatePaymentLinkParams extends Partial<CreatePaymentLinkParams> {
+  /**
+   * Payment link ID
+   */
+  id: string;
+}
+
+/**
+ * Parameters for fetching or deactivating a payment link
+ */
+export interface PaymentLinkIdParams {
+  /**
+   * Payment link ID
+   */
+  id: string;
+}
+
+/**
+ * Parameters for listing payment links
+ */
+export interface ListPaymentLinksParams {
+  /**
+   * Only return links with this status
+   */
+  status?: PaymentLinkStatus;
+
+  /**
+   * Page number (starting from 1)
+   */
+  page?: number;
+
+  /**
+   * Number of links per page
+   */
+  page_size?: number;
+}
+
+/**
+ * Payment link returned by PayWay
+ */
+export interface PaymentLink {
+  /**
+   * Payment link ID
+   */
+  id: string;
+
+  title: string;
+  amount: number;
+  currency: string;
+  description?: string;
+
+  /**
+   * Current status of the link
+   */
+  status: PaymentLinkStatus;
+
+  /**
+   * Shareable checkout URL
+   */
+  payment_link: string;
+
+  /**
+   * URL of the uploaded image
+   */
+  image?: string;
+
+  /**
+   * Maximum number of payments accepted
+   */
+  payment_limit?: number;
+
+  /**
+   * Number of payments received so far
+   */
+  total_used?: number;
+
+  expired_date?: string | number;
+  merchant_ref_no?: string;
+  created_at?: string;
+}
+
+/**
+ * Response from create, get, update and deactivate payment link
+ */
+export interface PaymentLinkResponse {
+  data: PaymentLink;
+  status: PayWayStatus;
+}
+
+/**
+ * Response from list payment links
+ */
+export interface PaymentLinkListResponse {
+  data: PaymentLink[];
+  page?: string | number;
+  pagination?: string | number;
+  status: PayWayStatus;
+}
+
+/**
+ * Billing interval of a subscription plan
+ */
+export type BillingInterval = "day" | "week" | "month" | "year";
+
+/**
+ * Recurring billing plan
+ */
+export interface SubscriptionPlan {
+  /**
+   * Plan ID (e.g., "pro-monthly")
+   */
+  id: string;
+
+  /**
+   * Billing interval
+   */
+  interval: BillingInterval;
+
+  /**
+   * Number of intervals between charges (default: 1)
+   * e.g., interval "month" with interval_count 3 bills quarterly
+   */
+  interval_count?: number;
+
+  /**
+   * Amount charged each billing cycle (number, decimal string or Money)
+   */
+  amount: AmountInput;
+
+  /**
+   * Currency (default: USD)
+   */
+  currency?: "USD" | "KHR";
+
+  /**
+   * Free trial length in days before the first charge (default: 0)
+   */
+  trial_days?: number;
+}
+
+/**
+ * Subscription lifecycle status
+ * - "trialing": in the free trial, first charge not yet made
+ * - "active": last charge succeeded
+ * - "past_due": last charge failed, a dunning retry is scheduled
+ * - "canceled": canceled by request or after the last dunning retry failed
+ */
+export type SubscriptionStatus = "trialing" | "active" | "past_due" | "canceled";
+
+/**
+ * Customer enrolled in a plan and charged with a stored token
+ */
+export interface Subscription {
+  id: string;
+  plan_id: string;
+
+  /**
+   * Consumer token ID the card or account is linked to
+   */
+  ctid: string;
+
+  /**
+   * PayWay token charged each cycle
+   */
+  pwt: string;
+
+  status: SubscriptionStatus;
+
+  /**
+   * Billing cycle the next charge is for (starting from 1)
+   */
+  cycle: number;
+
+  /**
+   * When the next cycle is due
+   */
+  next_billing_date: Date;
+
+  /**
+   * Failed charges for the current cycle
+   */
+  failed_attempts: number;
+
+  /**
+   * When the next dunning retry is due (null when none is scheduled)
+   */
+  next_retry_at: Date | null;
+
+  created_at: Date;
+  canceled_at?: Date;
+}
+
+/**
+ * Parameters for enrolling a customer in a plan
+ */
+export interface SubscribeParams {
+  /**
+   * Subscription ID (your own identifier)
+   */
+  id: string;
+
+  plan_id: string;
+  ctid: string;
+  pwt: string;
+
+  /**
+   * When the subscription starts (default: now)
+   */
+  start_date?: Date;
+}
+
+/**
+ * Storage for subscriptions
+ * May be synchronous (in-memory) or asynchronous (database)
+ */
+export interface SubscriptionStore {
+  get(id: string): Subscription | undefined | Promise<Subscription | undefined>;
+  save(subscription: Subscription): void | Promise<void>;
+  list(): Subscription[] | Promise<Subscription[]>;
+}
+
+/**
+ * Lifecycle event emitted by SubscriptionManager
+ */
+export type SubscriptionEvent =
+  | { type: "subscription.created"; subscription: Subscription }
+  | {
+      type: "charge.succeeded";
+      subscription: Subscription;
+      tran_id: string;
+      /**
+       * Token purchase response, or the check-transaction response when an
+       * ambiguous charge (network error, duplicate tran_id) was confirmed
+       */
+      response: TokenPurchaseResponse | CheckTransactionResponse;
+    }
+  | {
+      type: "charge.failed";
+      subscription: Subscription;
+      tran_id: string;
+      error: unknown;
+    }
+  | {
+      /**
+       * The subscription could not be charged and was left unchanged
+       * (e.g., its plan is not defined)
+       */
+      type: "charge.skipped";
+      subscription: Subscription;
+      error: PayWayConfigError;
+    }
+  | {
+      type: "subscription.canceled";
+      subscription: Subscription;
+      reason: "requested" | "dunning_exhausted";
+    };
+
+/**
+ * Options for SubscriptionManager
+ */
+export interface SubscriptionManagerOptions {
+  /**
+   * Where subscriptions are kept (default: in-memory store)
+   */
+  store?: SubscriptionStore;
+
+  /**
+   * Days to wait before each retry of a failed charge (default: [1, 3, 5])
+   * The subscription is canceled when every retry has failed.
+   */
+  dunning?: number[];
+
+  /**
+   * Prefix of generated tran_ids (default: "SUB")
+   * Must leave room for 46655 billing cycles and every dunning retry within
+   * PayWay's 20 character limit.
+   */
+  tranIdPrefix?: string;
+
+  /**
+   * Called for every lifecycle event
+   */
+  onEvent?: (event: SubscriptionEvent) => void | Promise<void>;
+
+  /**
+   * Options passed to every token purchase
+   */
+  executeOptions?: ExecuteOptions;
+}
+
+/**
+ * Final or intermediate status reported while waiting for a transaction
+ * - "EXPIRED": still pending when its lifetime ran out
+ */
+export type TransactionWaitStatus = TransactionStatus | "EXPIRED";
+
+/**
+ * Status change reported by watchTransaction / waitForTransaction
+ */
+export interface TransactionStatusUpdate {
+  tran_id: string;
+  status: TransactionWaitStatus;
+
+  /**
+   * Latest check-transaction response (unset when that check failed with a transient error)
+   */
+  response?: CheckTransactionResponse;
+
+  /**
+   * True for the last update (the status will not change any more)
+   */
+  final: boolean;
+}
+
+/**
+ * Options for watchTransaction / waitForTransaction
+ */
+export interface WaitForTransactionOptions {
+  /**
+   * Delay before the second check in milliseconds (default: 2000)
+   * Grows by 1.5x after each check.
+   */
+  intervalMs?: number;
+
+  /**
+   * Maximum delay between checks in milliseconds (default: 10000)
+   */
+  maxIntervalMs?: number;
+
+  /**
+   * Give up waiting after this many milliseconds
+   * (default: 10 minutes, or no limit when lifetime is set)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Stops waiting when aborted
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Transaction lifetime in minutes (same value as CreateTransactionParams.lifetime)
+   * A transaction still pending after its lifetime is reported as "EXPIRED".
+   */
+  lifetime?: number;
+
+  /**
+   * When the transaction was created (default: now)
+   */
+  startedAt?: Date;
+
+  /**
+   * Options passed to every check-transaction call
+   */
+  executeOptions?: ExecuteOptions;
+}
+
+/**
+ * Order recorded on the merchant side, matched against PayWay by tran_id
+ */
+export interface ReconciliationOrder {
+  tran_id: string;
+  amount: number | string;
+
+  /**
+   * Order currency (default: "USD")
+   */
+  currency?: "USD" | "KHR";
+
+  /**
+   * Status the order should have at PayWay (default: "APPROVED")
+   */
+  expected_status?: TransactionStatus;
+}
+
+/**
+ * Parameters for reconcileTransactions
+ */
+export interface ReconcileParams {
+  /**
+   * Merchant orders created within date_range
+   */
+  orders: ReconciliationOrder[];
+
+  /**
+   * Period to fetch from the PayWay transaction list
+   */
+  date_range: DateRange;
+
+  /**
+   * Records per transaction-list request (default: 100)
+   */
+  page_size?: number;
+}
+
+/**
+ * Reconciliation outcome for one tran_id
+ * - "matched": amount, currency and status agree
+ * - "missing_at_payway": merchant order with no PayWay transaction
+ * - "unknown_at_merchant": PayWay transaction with no merchant order
+ * - "amount_mismatch": amount or currency differs (takes precedence over status)
+ * - "status_mismatch": payment status differs from the expected status
+ * - "duplicate": an order or PayWay transaction repeating an earlier tran_id
+ */
+export type ReconciliationCategory =
+  | "matched"
+  | "missing_at_payway"
+  | "unknown_at_merchant"
+  | "amount_mismatch"
+  | "status_mismatch"
+  | "duplicate";
+
+/**
+ * One reconciled tran_id
+ */
+export interface ReconciliationRecord {
+  tran_id: string;
+  category: ReconciliationCategory;
+
+  /**
+   * Merchant order (missing for unknown_at_merchant and duplicate PayWay transactions)
+   */
+  order?: ReconciliationOrder;
+
+  /**
+   * PayWay transaction (missing for missing_at_payway and duplicate orders)
+   */
+  transaction?: TransactionRecord;
+}
+
+/**
+ * Result of reconcileTransactions
+ */
+export interface ReconciliationReport {
+  /**
+   * Reconciled period (yyyyMMddHHmmss)
+   */
+  from_date: string;
+  to_date: string;
+
+  /**
+   * When the report was generated (ISO 8601)
+   */
+  generated_at: string;
+
+  /**
+   * Every record, merchant orders first, then unknown and duplicate PayWay transactions
+   */
+  records: ReconciliationRecord[];
+
+  matched: ReconciliationRecord[];
+  missing_at_payway: ReconciliationRecord[];
+  unknown_at_merchant: ReconciliationRecord[];
+  amount_mismatch: ReconciliationRecord[];
+  status_mismatch: ReconciliationRecord[];
+  duplicate: ReconciliationRecord[];
+}
+
+/**
+ * Parameters for the settlement report
+ */
+export interface SettlementReportParams {
+  /**
+   * Settlement period (e.g., dayRange(new Date()))
+   */
+  date_range: DateRange;
+
+  /**
+   * Page number (starting from 1)
+   */
+  page?: number;
+
+  /**
+   * Records per page (sent as pagination)
+   */
+  page_size?: number;
+}
+
+/**
+ * Settled transaction returned by PayWay
+ */
+export interface SettlementRecord {
+  /**
+   * Settlement batch the transaction was paid out in
+   */
+  settlement_id?: string;
+
+  /**
+   * Settlement date (e.g., "2024-01-16")
+   */
+  settlement_date: string;
+
+  tran_id: string;
+  currency: string;
+
+  /**
+   * Transaction amount
+   */
+  amount: number;
+
+  /**
+   * Merchant discount / processing fee
+   */
+  fee?: number;
+
+  /**
+   * Amount credited to the merchant (amount - fee)
+   */
+  net_amount: number;
+
+  /**
+   * Payment method (e.g., "ABA PAY", "VISA")
+   */
+  payment_type?: string;
+}
+
+/**
+ * Response from the settlement report
+ */
+export interface SettlementReportResponse {
+  data: SettlementRecord[];
+  page?: string | number;
+  pagination?: string | number;
+  status: PayWayStatus;
+}
+
+/**
+ * Parameters for the payout statement
+ */
+export interface PayoutStatementParams {
+  /**
+   * Payout period
+   */
+  date_range: DateRange;
+
+  /**
+   * Only payouts to this beneficiary account
+   */
+  acc?: string;
+
+  /**
+   * Only payouts of this transaction
+   */
+  tran_id?: string;
+
+  /**
+   * Page number (starting from 1)
+   */
+  page?: number;
+
+  /**
+   * Records per page (sent as pagination)
+   */
+  page_size?: number;
+}
+
+/**
+ * Funds sent to one payout beneficiary
+ */
+export interface PayoutRecord {
+  /**
+   * Transaction the payout was split from
+   */
+  tran_id: string;
+
+  /**
+   * Beneficiary account
+   */
+  acc: string;
+
+  /**
+   * Amount paid to the beneficiary
+   */
+  amt: number;
+
+  currency: string;
+
+  /**
+   * Payout date (e.g., "2024-01-16")
+   */
+  payout_date: string;
+
+  /**
+   * Payout status (e.g., "SUCCESS", "PENDING", "FAILED")
+   */
+  status: string;
+}
+
+/**
+ * Response from the payout statement
+ */
+export interface PayoutStatementResponse {
+  data: PayoutRecord[];
+  page?: string | number;
+  pagination?: string | number;
+  status: PayWayStatus;
+}
+
+/**
+ * Row of a downloaded settlement or payout export
+ *
+ * Known columns are mapped to the typed fields; every column is kept in raw.
+ */
+export interface SettlementExportRow {
+  tran_id?: string;
+
+  /**
+   * Beneficiary account
+   */
+  acc?: string;
+
+  /**
+   * Amount (thousands separators removed)
+   */
+  amt?: number;
+
+  currency?: string;
+
+  /**
+   * Settlement or payout date as written in the export
+   */
+  date?: string;
+
+  status?: string;
+
+  /**
+   * Every column by its header as written in the export
+   */
+  raw: Record<string, string>;
+}
+
+/**
+ * Options for parseSettlementExport
+ */
+export interface ParseSettlementExportOptions {
+  /**
+   * Column separator (default: detected from the header row: comma, semicolon or tab)
+   */
+  delimiter?: string;
+}
+
+/**
+ * Outcome for one expected payout
+ * - "received": the account received the full amount
+ * - "missing": nothing was received
+ * - "short": less than the expected amount was received
+ * - "over": more than the expected amount was received
+ */
+export type PayoutVerificationStatus = "received" | "missing" | "short" | "over";
+
+/**
+ * Result of comparing one PayoutItem with what the account received
+ */
+export interface PayoutVerificationItem {
+  acc: string;
+  expected: number;
+  received: number;
+  status: PayoutVerificationStatus;
+}
+
+/**
+ * Result of verifyPayouts
+ */
+export interface PayoutVerification {
+  /**
+   * True when every account received exactly its amount
+   */
+  ok: boolean;
+
+  items: PayoutVerificationItem[];
+}
@@ -0,0 +1,162 @@
+import { MAX_TRAN_ID_LENGTH } from "./clock.js";
+import { PayWayConfigError, PayWayValidationError } from "./errors.js";
+import type { ValidationIssue } from "./errors.js";
+import { currencyOf, toMinorUnits } from "./money.js";
+import type { CreateTransactionParams, ValidationMode } from "./types.js";
+
+/**
+ * Maximum lengths ABA PayWay accepts for purchase fields (after trimming)
+ */
+const MAX_LENGTHS = {
+  tran_id: MAX_TRAN_ID_LENGTH,
+  firstname: 20,
+  lastname: 20,
+  email: 50,
+  phone: 20,
+} as const;
+
+/**
+ * Checkout page lifetime bounds in minutes (3 minutes to 30 days)
+ */
+const LIFETIME_MINUTES = { min: 3, max: 43_200 } as const;
+
+const TRAN_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?\d+$/;
+
+/**
+ * Checks ABA PayWay's field rules for a purchase
+ *
+ * Rules:
+ * - tran_id: required, at most 20 letters, digits, "-" or "_"
+ * - amount: required (unless computed from CartItem[]), greater than 0 and
+ *   within the currency's precision
+ * - currency: "USD" or "KHR"
+ * - firstname / lastname: at most 20 characters after trimming
+ * - email: at most 50 characters, name@domain.tld
+ * - phone: at most 20 characters, digits with an optional leading "+"
+ * - lifetime: whole minutes between 3 and 43200 (30 days)
+ * - return_url / cancel_url / continue_success_url: absolute http(s) URLs
+ *
+ * @param params - Purchase parameters, as passed to buildTransactionPayload
+ * @returns Every rule that failed (empty when the parameters are valid)
+ *
+ * @example
+ * ```typescript
+ * validateTransactionParams({ tran_id: "ORDER 123", amount: 10 });
+ * // [{ field: "tran_id", rule: "format", message: "tran_id may only contain ..." }]
+ * ```
+ */
+export function validateTransactionParams(params: CreateTransactionParams): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const fail = (field: string, rule: string, message: string) => {
+    issues.push({ field, rule, message });
+  };
+
+  // Step 1: Transaction ID
+  const tran_id = params.tran_id?.trim();
+  if (!tran_id) {
+    fail("tran_id", "required", "tran_id is required");
+  } else {
+    if (tran_id.length > MAX_LENGTHS.tran_id) {
+      fail("tran_id", "max_length", `tran_id must be at most ${MAX_LENGTHS.tran_id} characters`);
+    }
+    if (!TRAN_ID_PATTERN.test(tran_id)) {
+      fail("tran_id", "format", 'tran_id may only contain letters, digits, "-" and "_"');
+    }
+  }
+
+  // Step 2: Amount and currency
+  if (params.currency != null && params.currency !== "USD" && params.currency !== "KHR") {
+    fail("currency", "enum", `currency must be "USD" or "KHR", got "${params.currency}"`);
+  }
+  if (params.amount == null) {
+    if (!Array.isArray(params.items)) {
+      fail("amount", "required", "amount is required (or pass items as CartItem[])");
+    }
+  } else {
+    const currency =
+      params.currency === "USD" || params.currency === "KHR" ? params.currency : currencyOf(params.amount);
+    try {
+      if (toMinorUnits(params.amount, currency) === 0) {
+        fail("amount", "positive", "amount must be greater than 0");
+      }
+    } catch (error) {
+      if (!(error instanceof PayWayConfigError)) throw error;
+      fail("amount", error.code === "CURRENCY_MISMATCH" ? "currency" : "format", error.message);
+    }
+  }
+
+  // Step 3: Payer details (checked after trimming, as they are sent)
+  for (const field of ["firstname", "lastname", "email", "phone"] as const) {
+    const value = params[field]?.trim();
+    if (value && value.length > MAX_LENGTHS[field]) {
+      fail(field, "max_length", `${field} must be at most ${MAX_LENGTHS[field]} characters`);
+    }
+  }
+  const email = params.email?.trim();
+  if (email && !EMAIL_PATTERN.test(email)) {
+    fail("email", "format", `email "${email}" is not a valid email address`);
+  }
+  const phone = params.phone?.trim();
+  if (phone && !PHONE_PATTERN.test(phone)) {
+    fail("phone", "format", 'phone may only contain digits and a leading "+"');
+  }
+
+  // Step 4: Checkout page lifetime
+  if (params.lifetime != null) {
+    const { min, max } = LIFETIME_MINUTES;
+    if (!(Number.isInteger(params.lifetime) && params.lifetime >= min && params.lifetime <= max)) {
+      fail("lifetime", "range", `lifetime must be a whole number of minutes between ${min} and ${max}`);
+    }
+  }
+
+  // Step 5: Redirect URLs
+  for (const field of ["return_url", "cancel_url", "continue_success_url"] as const) {
+    const value = params[field];
+    if (value != null && !isHttpUrl(value)) {
+      fail(field, "url", `${field} must be an absolute http(s) URL`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Checks that a string parses as an absolute http(s) URL
+ * @private
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "https:" || protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Applies a validation mode to the issues found for an operation
+ *
+ * @param issues - Rules that failed
+ * @param operation - Builder name used in the error message
+ * @param mode - "strict" throws, "warn" reports through onWarning, "off" does nothing
+ * @param onWarning - Receives the error in "warn" mode (without it, warnings are dropped)
+ * @throws {PayWayValidationError} In "strict" mode when there is at least one issue
+ */
+export function enforceValidation(
+  issues: ValidationIssue[],
+  operation: string,
+  mode: ValidationMode,
+  onWarning?: (error: PayWayValidationError) => void
+): void {
+  if (mode === "off" || issues.length === 0) return;
+  if (mode === "warn" && !onWarning) return;
+
+  const error = new PayWayValidationError(
+    `Invalid ${operation} parameters: ${issues.map((issue) => issue.message).join("; ")}`,
+    { code: "VALIDATION_FAILED", issues }
+  );
+  if (mode === "strict") throw error;
+  onWarning?.(error);
+}
@@ -0,0 +1,309 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'node:stream';
+import {
+  PayWayClient,
+  parseCallback,
+  verifyCallback,
+  verifyNodeCallback,
+  verifyExpressCallback,
+  verifyFetchCallback,
+  paywayCallbackMiddleware,
+  MemoryReplayStore,
+  PayWayCallbackError,
+  fixedClock,
+  formatRequestTime
+} from '../src/index.js';
+
+const now = new Date('2024-01-15T10:30:00+07:00');
+const req_time = formatRequestTime(now);
+
+function signedFields(client: PayWayClient, fields: Record<string, string>): Record<string, string> {
+  return { ...fields, hash: client.create_hash(Object.values(fields)) };
+}
+
+function nodeRequest(body: string, contentType: string): any {
+  const req: any = Readable.from([Buffer.from(body)]);
+  req.headers = { 'content-type': contentType };
+  return req;
+}
+
+describe('parseCallback', () => {
+  it('should parse JSON body', () => {
+    const callback = parseCallback('{"tran_id":"ORDER-123","apv":"123456","status":0}');
+
+    expect(callback.tran_id).toBe('ORDER-123');
+    expect(callback.apv).toBe('123456');
+    expect(callback.status).toBe('0');
+  });
+
+  it('should parse form-encoded body', () => {
+    const callback = parseCallback(
+      'tran_id=ORDER-123&apv=123456&status=00&return_params=a%3Db',
+      'application/x-www-form-urlencoded'
+    );
+
+    expect(callback).toEqual({
+      tran_id: 'ORDER-123',
+      apv: '123456',
+      status: '00',
+      return_params: 'a=b'
+    });
+  });
+
+  it('should parse Buffer and already parsed objects', () => {
+    expect(parseCallback(Buffer.from('{"tran_id":"A","status":"00"}')).tran_id).toBe('A');
+    expect(parseCallback({ tran_id: 'B', status: 0, apv: null }).status).toBe('0');
+  });
+
+  it('should reject invalid JSON', () => {
+    expect(() => parseCallback('{"tran_id":', 'application/json')).toThrow(PayWayCallbackError);
+  });
+
+  it('should reject body without tran_id', () => {
+    try {
+      parseCallback({ status: '00' });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(PayWayCallbackError);
+      expect((error as PayWayCallbackError).reason).toBe('malformed');
+    }
+  });
+});
+
+describe('verifyCallback', () => {
+  const client = new PayWayClient('http://example.com/', 'merchant_123', 'api_key_456');
+
+  it('should accept a correctly signed callback', async () => {
+    const body = signedFields(client, { req_time, tran_id: 'ORDER-1', apv: '111', status: '00' });
+
+    const callback = await verifyCallback(client, JSON.stringify(body), { now, replayStore: null });
+
+    expect(callback.tran_id).toBe('ORDER-1');
+    expect(callback.apv).toBe('111');
+  });
+
+  it('should verify form-encoded callbacks in the order received', async () => {
+    const body = signedFields(client, { req_time, tran_id: 'ORDER-2', status: '00', apv: '222' });
+
+    const callback = await verifyCallback(client, new URLSearchParams(body).toString(), {
+      contentType: 'application/x-www-form-urlencoded',
+      now,
+      replayStore: null
+    });
+
+    expect(callback.tran_id).toBe('ORDER-2');
+  });
+
+  it('should reject a tampered callback', async () => {
+    const body = signedFields(client, { req_time, tran_id: 'ORDER-3', status: '00' });
+    body.status = '01';
+
+    await expect(
+      verifyCallback(client, body, { now, replayStore: null })
+    ).rejects.toMatchObject({ reason: 'invalid_signature' });
+  });
+
+  it('should reject a callback signed with another api key', async () => {
+    const other = new PayWayClient('http://example.com/', 'merchant_123', 'other_key');
+    const body = signedFields(other, { req_time, tran_id: 'ORDER-4', status: '00' });
+
+    await expect(
+      verifyCallback(client, body, { now, replayStore: null })
+    ).rejects.toMatchObject({ reason: 'invalid_signature' });
+  });
+
+  it('should reject a callback without hash', async () => {
+    await expect(
+      verifyCallback(client, { req_time, tran_id: 'ORDER-5', status: '00' }, { now, replayStore: null })
+    ).rejects.toMatchObject({ reason: 'missing_signature' });
+  });
+
+  it('should reject stale callbacks', async () => {
+    const body = signedFields(client, { req_time, tran_id: 'ORDER-6', status: '00' });
+    const later = new Date(now.getTime() + 10 * 60 * 1000);
+
+    await expect(
+      verifyCallback(client, body, { now: later, replayStore: null })
+    ).rejects.toMatchObject({ reason: 'stale' });
+
+    const callback = await verifyCallback(client, body, {
+      now: later,
+      maxAgeSeconds: 3600,
+      replayStore: null
+    });
+    expect(callback.tran_id).toBe('ORDER-6');
+  });
+
+  it('should read req_time as Cambodia time in any server time zone', async () => {
+    const originalTZ = process.env.TZ;
+    process.env.TZ = 'America/New_York';
+    try {
+      const signedAt = new Date('2024-07-01T12:00:00Z');
+      const body = signedFields(client, { req_time: formatRequestTime(signedAt), tran_id: 'ORDER-TZ', status: '00' });
+
+      const callback = await verifyCallback(client, body, {
+        now: new Date(signedAt.getTime() + 60 * 1000),
+        replayStore: null
+      });
+      expect(callback.tran_id).toBe('ORDER-TZ');
+    } finally {
+      process.env.TZ = originalTZ;
+    }
+  });
+
+  it("should default now to the client's clock", async () => {
+    const clocked = new PayWayClient('http://example.com/', 'merchant_123', 'api_key_456', undefined, {
+      clock: fixedClock(now)
+    });
+    const body = signedFields(clocked, { req_time, tran_id: 'ORDER-CLOCK', status: '00' });
+
+    const callback = await verifyCallback(clocked, body, { replayStore: null });
+    expect(callback.tran_id).toBe('ORDER-CLOCK');
+  });
+
+  it('should reject a malformed req_time', async () => {
+    const body = signedFields(client, { req_time: '20241315103000', tran_id: 'ORDER-BAD', status: '00' });
+
+    await expect(
+      verifyCallback(client, body, { now, replayStore: null })
+    ).rejects.toMatchObject({ reason: 'malformed' });
+  });
+
+  it('should skip the staleness check when maxAgeSeconds is null', async () => {
+    const body = signedFields(client, { tran_id: 'ORDER-7', status: '00' });
+
+    await expect(
+      verifyCallback(client, body, { now, replayStore: null })
+    ).rejects.toMatchObject({ reason: 'stale' });
+
+    const callback = await verifyCallback(client, body, { maxAgeSeconds: null, replayStore: null });
+    expect(callback.tran_id).toBe('ORDER-7');
+  });
+
+  it('should reject replayed callbacks', async () => {
+    const replayStore = new MemoryReplayStore();
+    const body = signedFields(client, { req_time, tran_id: 'ORDER-8', status: '00' });
+
+    await verifyCallback(client, body, { now, replayStore });
+
+    await expect(
+      verifyCallback(client, body, { now, replayStore })
+    ).rejects.toMatchObject({ reason: 'replayed' });
+  });
+
+  it('should use a default replay store per client', async () => {
+    const freshClient = new PayWayClient('http://example.com/', 'merchant_123', 'api_key_456');
+    const body = signedFields(freshClient, { req_time, tran_id: 'ORDER-9', status: '00' });
+
+    await verifyCallback(freshClient, body, { now });
+
+    await expect(verifyCallback(freshClient, body, { now })).rejects.toThrow(
+      'Callback for ORDER-9 has already been processed'
+    );
+  });
+});
+
+describe('callback adapters', () => {
+  const client = new PayWayClient('http://example.com/', 'merchant_123', 'api_key_456');
+  const options = { now, replayStore: null };
+
+  it('should verify plain Node http requests', async () => {
+    const body = signedFields(client, { req_time, tran_id: 'NODE-1', status: '00' });
+    const req = nodeRequest(new URLSearchParams(body).toString(), 'application/x-www-form-urlencoded');
+
+    const callback = await verifyNodeCallback(client, req, options);
+
+    expect(callback.tran_id).toBe('NODE-1');
+  });
+
+  it('should verify Express requests with a parsed body', async () => {
+    const body = signedFields(client, { req_time, tran_id: 'EXPRESS-1', status: '00' });
+    const req: any = { headers: { 'content-type': 'application/json' }, body };
+
+    const callback = await verifyExpressCallback(client, req, options);
+
+    expect(callback.tran_id).toBe('EXPRESS-1');
+  });
+
+  it('should verify Express requests without a body parser', async () => {
+    const body = signedFields(client, { req_time, tran_id: 'EXPRESS-2', status: '00' });
+    const req = nodeRequest(JSON.stringify(body), 'application/json');
+
+    const callback = await verifyExpressCallback(client, req, options);
+
+    expect(callback.tran_id).toBe('EXPRESS-2');
+  });
+
+  it('should store the payload in res.locals from the middleware', async () => {
+    const body = signedFields(client, { req_time, tran_id: 'EXPRESS-3', status: '00' });
+    const req: any = { headers: {}, body };
+    const res = { locals: {} as Record<string, any> };
+    const errors: unknown[] = [];
+
+    await paywayCallbackMiddleware(client, options)(req, res, (error) => errors.push(error));
+
+    expect(errors).toEqual([undefined]);
+    expect(res.locals.paywayCallback.tran_id).toBe('EXPRESS-3');
+  });
+
+  it('should pass verification errors to next()', async () => {
+    const req: any = { headers: {}, body: { req_time, tran_id: 'EXPRESS-4', status: '00', hash: 'bad' } };
+    const res = { locals: {} as Record<string, any> };
+    const errors: unknown[] = [];
+
+    await paywayCallbackMiddleware(client, options)(req, res, (error) => errors.push(error));
+
+    expect(errors[0]).toBeInstanceOf(PayWayCallbackError);
+    expect(res.locals.paywayCallback).toBeUndefined();
+  });
+
+  it('should verify Fetch API requests', async () => {
+    const body = signedFields(client, { req_time, tran_id: 'FETCH-1', status: '00' });
+    const request = new Request('https://mysite.com/callback', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    const callback = await verifyFetchCallback(client, request, options);
+
+    expect(callback.tran_id).toBe('FETCH-1');
+  });
+
+  it('should stop reading Node bodies over maxBodyBytes', async () => {
+    const chunks = [Buffer.alloc(40, 'a'), Buffer.alloc(40, 'b'), Buffer.alloc(40, 'c')];
+    let read = 0;
+    const req: any = Readable.from((function* () {
+      for (const chunk of chunks) {
+        read++;
+        yield chunk;
+      }
+    })());
+    req.headers = { 'content-type': 'application/x-www-form-urlencoded' };
+
+    const result = verifyNodeCallback(client, req, { ...options, maxBodyBytes: 64 });
+
+    await expect(result).rejects.toMatchObject({ reason: 'malformed' });
+    await expect(result).rejects.toThrow('Callback body exceeds 64 bytes');
+    expect(read).toBe(2);
+  });
+
+  it('should reject a declared content-length over maxBodyBytes before reading', async () => {
+    const req = nodeRequest('tran_id=NODE-2', 'application/x-www-form-urlencoded');
+    req.headers['content-length'] = '70000';
+
+    await expect(verifyNodeCallback(client, req, options)).rejects.toMatchObject({ reason: 'malformed' });
+  });
+
+  it('should stop reading Fetch API bodies over maxBodyBytes', async () => {
+    const request = new Request('https://mysite.com/callback', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: 'x'.repeat(100)
+    });
+
+    await expect(verifyFetchCallback(client, request, { ...options, maxBodyBytes: 64 })).rejects.toMatchObject({
+      reason: 'malformed'
+    });
+  });
+});
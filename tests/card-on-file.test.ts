@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import { PayWayClient, PayWayConfigError, decryptForTesting } from '../src/index.js';
+import { mockJsonFetch } from './helpers.js';
+
+describe('card-on-file', () => {
+  // Generate a throwaway 1024-bit key pair so the encrypted payload can be decrypted
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+    modulusLength: 1024,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+
+  const success = { code: '00', message: 'Success!' };
+
+  describe('buildLinkCardPayload', () => {
+    it('should sign fields and base64 encode URLs', () => {
+      const client = new PayWayClient("http://example.com/", "merchant", "key");
+      const payload = client.buildLinkCardPayload({
+        ctid: 'CUSTOMER-42',
+        firstname: ' Dara ',
+        return_url: 'https://mysite.com/card-linked',
+        continue_add_card_success_url: 'https://mysite.com/cards'
+      });
+
+      expect(payload.url).toBe('http://example.com/api/payment-gateway/v1/cof/initial');
+      expect(payload.fields).toMatchObject({
+        ctid: 'CUSTOMER-42',
+        firstname: 'Dara',
+        return_url: Buffer.from('https://mysite.com/card-linked').toString('base64'),
+        continue_add_card_success_url: Buffer.from('https://mysite.com/cards').toString('base64')
+      });
+
+      const { hash, ...signed } = payload.fields;
+      expect(hash).toBe(client.create_hash(Object.values(signed)));
+    });
+  });
+
+  describe('buildTokenPurchasePayload', () => {
+    it('should encrypt the token in merchant_auth', () => {
+      const client = new PayWayClient("http://example.com/", "merchant", "key", publicKey);
+      const payload = client.buildTokenPurchasePayload({
+        tran_id: 'SUB-1',
+        ctid: 'CUSTOMER-42',
+        pwt: 'PWT-123',
+        amount: 9.99
+      });
+
+      expect(payload.url).toBe('http://example.com/api/payment-gateway/v1/cof/purchase');
+      expect(Object.keys(payload.fields)).toEqual(['merchant_auth', 'request_time', 'merchant_id', 'hash']);
+      expect(decryptForTesting(payload, privateKey)).toEqual({
+        mc_id: 'merchant',
+        tran_id: 'SUB-1',
+        ctid: 'CUSTOMER-42',
+        pwt: 'PWT-123',
+        amount: 9.99
+      });
+      expect(payload.hash).toBe(
+        client.create_hash([payload.fields.merchant_auth, payload.fields.request_time, 'merchant'])
+      );
+    });
+
+    it('should require an RSA public key', () => {
+      const client = new PayWayClient("http://example.com/", "merchant", "key");
+
+      expect(() =>
+        client.buildTokenPurchasePayload({ tran_id: 'SUB-1', ctid: 'C', pwt: 'P', amount: 1 })
+      ).toThrow(PayWayConfigError);
+    });
+  });
+
+  describe('typed methods', () => {
+    it('should list linked tokens', async () => {
+      const fetchMock = mockJsonFetch({
+        data: [{ ctid: 'CUSTOMER-42', pwt: 'PWT-123', mask_pan: '4111-XXXX-XXXX-1111', card_type: 'VISA' }],
+        status: success
+      });
+      const client = new PayWayClient("http://example.com/", "merchant", "key", undefined, { fetch: fetchMock });
+
+      const result = await client.listTokens('CUSTOMER-42');
+
+      expect(result.data[0].mask_pan).toBe('4111-XXXX-XXXX-1111');
+      expect(fetchMock.mock.calls[0][0]).toBe('http://example.com/api/payment-gateway/v1/cof/list');
+    });
+
+    it('should link an account and remove a token', async () => {
+      const fetchMock = mockJsonFetch(
+        { qr_string: '000201...', deeplink: 'abamobilebank://...', status: success },
+        { status: success }
+      );
+      const client = new PayWayClient("http://example.com/", "merchant", "key", undefined, { fetch: fetchMock });
+
+      const linked = await client.linkAccount({ ctid: 'CUSTOMER-42' });
+      expect(linked.qr_string).toBe('000201...');
+
+      await client.removeToken({ ctid: 'CUSTOMER-42', pwt: 'PWT-123' });
+      const body = fetchMock.mock.calls[1][1].body as FormData;
+      expect(body.get('pwt')).toBe('PWT-123');
+    });
+  });
+});
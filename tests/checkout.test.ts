@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PayWayClient,
+  PayWayConfigError,
+  renderCheckoutForm,
+  checkoutFormResponse,
+  fixedClock
+} from '../src/index.js';
+
+const client = new PayWayClient('https://checkout-sandbox.payway.com.kh/', 'merchant', 'key', undefined, {
+  clock: fixedClock('2024-01-15T10:30:00+07:00'),
+  validation: 'off'
+});
+
+describe('renderCheckoutForm', () => {
+  it('should render every field as an escaped hidden input', () => {
+    const payload = client.buildTransactionPayload({
+      tran_id: 'ORDER-123',
+      amount: 10,
+      firstname: '"><script>alert(1)</script>',
+      custom_fields: `{"note":"O'Reilly & <Sons>"}`
+    });
+
+    const html = renderCheckoutForm(payload);
+
+    expect(html).toContain(
+      '<form id="payway_checkout" method="POST" action="https://checkout-sandbox.payway.com.kh/api/payment-gateway/v1/payments/purchase">'
+    );
+    expect(html).toContain('<input type="hidden" name="firstname" value="&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;">');
+    expect(html).toContain('value="{&quot;note&quot;:&quot;O&#39;Reilly &amp; &lt;Sons&gt;&quot;}"');
+    expect(html).toContain(`<input type="hidden" name="hash" value="${payload.hash}">`);
+    expect(html).not.toContain('<script>alert(1)');
+  });
+
+  it('should auto-submit with a nonce and fall back to a button without JavaScript', () => {
+    const payload = client.buildTransactionPayload({ tran_id: 'ORDER-123', amount: 10 });
+
+    const html = renderCheckoutForm(payload, { nonce: 'r4nd"0m' });
+
+    expect(html).toContain('<noscript><button type="submit">Continue to ABA PayWay</button></noscript>');
+    expect(html).toContain('<script nonce="r4nd&quot;0m">document.getElementById("payway_checkout").submit();</script>');
+    expect(html.match(/<script/g)).toHaveLength(1);
+  });
+
+  it('should render a button and a target when not auto-submitting', () => {
+    const payload = client.buildTransactionPayload({ tran_id: 'ORDER-123', amount: 10, view_type: 'hosted_view' });
+
+    const html = renderCheckoutForm(payload, { autoSubmit: false, target: '_blank', buttonLabel: 'Pay $10 & go' });
+
+    expect(html).toContain('target="_blank"');
+    expect(html).toContain('<button type="submit">Pay $10 &amp; go</button>');
+    expect(html).not.toContain('<script');
+  });
+
+  it('should open popup checkout through the ABA plugin', () => {
+    const payload = client.buildTransactionPayload({ tran_id: 'ORDER-123', amount: 10, view_type: 'popup' });
+
+    const html = renderCheckoutForm(payload, { nonce: 'abc' });
+
+    expect(html).toContain('id="aba_merchant_request"');
+    expect(html).toContain('target="aba_webservice"');
+    expect(html).toContain('<input type="hidden" name="view_type" value="popup">');
+    expect(html).toContain('<script src="https://checkout-sandbox.payway.com.kh/plugins/checkout2-0.js" nonce="abc"></script>');
+    expect(html).toContain('<script nonce="abc">AbaPayway.checkout();</script>');
+    expect(renderCheckoutForm(payload, { autoSubmit: false, pluginUrl: '/vendor/aba.js' })).toContain(
+      'event.preventDefault(); AbaPayway.checkout();'
+    );
+  });
+
+  it('should keep a custom form id out of the script context', () => {
+    const payload = client.buildTransactionPayload({ tran_id: 'ORDER-123', amount: 10 });
+
+    const html = renderCheckoutForm(payload, { formId: '</script><script>alert(1)//' });
+
+    expect(html).not.toContain('</script><script>alert(1)');
+    expect(html).toContain('document.getElementById("\\u003c/script>\\u003cscript>alert(1)//").submit();');
+  });
+
+  it('should reject payloads with file uploads', () => {
+    const payload = client.buildTransactionPayload({ tran_id: 'ORDER-123', amount: 10 });
+
+    const withFiles = { ...payload, files: { image: {} as any } };
+
+    expect(() => renderCheckoutForm(withFiles)).toThrow(PayWayConfigError);
+    expect(() => renderCheckoutForm(withFiles)).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_PAYLOAD' }));
+  });
+});
+
+describe('checkoutFormResponse', () => {
+  it('should return an uncached HTML page', async () => {
+    const payload = client.buildTransactionPayload({ tran_id: 'ORDER-123', amount: 10 });
+
+    const response = checkoutFormResponse(payload, {
+      nonce: 'abc',
+      headers: { 'Content-Security-Policy': "script-src 'nonce-abc'" }
+    });
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/html; charset=utf-8');
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    expect(response.headers.get('content-security-policy')).toBe("script-src 'nonce-abc'");
+    expect(body).toMatch(/^<!DOCTYPE html>/);
+    expect(body).toContain('<title>Redirecting to ABA PayWay</title>');
+    expect(body).toContain(renderCheckoutForm(payload, { nonce: 'abc' }));
+  });
+});
@@ -1,5 +1,16 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
-import { PayWayClient, trim } from '../src/index.js';
+import { generateKeyPairSync } from 'node:crypto';
+import {
+  PayWayClient,
+  trim,
+  PayWayResponseError,
+  PayWayConfigError,
+  PayWayStatusCode,
+  toPayWayStatusCode,
+  monthRange,
+  decryptForTesting,
+  getPaymentStatus
+} from '../src/index.js';
 
 describe('trim utility', () => {
   it('should trim trailing spaces', () => {
@@ -41,6 +52,14 @@ describe('PayWayClient', () => {
       expect(client.merchant_id).toBe("merchant_123");
       expect(client.api_key).toBe("api_key_456");
     });
+
+    it('should add a missing trailing slash to base_url', () => {
+      const client = new PayWayClient("https://checkout-sandbox.payway.com.kh", "1", "1");
+
+      expect(client.base_url).toBe("https://checkout-sandbox.payway.com.kh/");
+      expect(client.buildCheckTransactionPayload("ORDER-1").url)
+        .toBe("https://checkout-sandbox.payway.com.kh/api/payment-gateway/v1/payments/check-transaction");
+    });
   });
 
   describe('create_hash', () => {
@@ -307,6 +326,74 @@ describe('PayWayClient', () => {
       expect(payload.fields).not.toHaveProperty('from_date');
       expect(payload.fields).not.toHaveProperty('to_date');
     });
+
+    it('should format Date objects and date ranges', () => {
+      const client = new PayWayClient("http://example.com", "1", "1");
+
+      const fromDates = client.buildTransactionListPayload({
+        from_date: new Date('2024-01-01T00:00:00+07:00'),
+        to_date: new Date('2024-01-31T23:59:59+07:00')
+      });
+      const fromRange = client.buildTransactionListPayload({
+        date_range: monthRange(new Date('2024-01-15T00:00:00+07:00'))
+      });
+
+      for (const payload of [fromDates, fromRange]) {
+        expect(payload.fields).toMatchObject({ from_date: '20240101000000', to_date: '20240131235959' });
+      }
+    });
+
+    it('should send page and page_size as pagination in hash order', () => {
+      const client = new PayWayClient("http://example.com", "1", "1");
+
+      const payload = client.buildTransactionListPayload({ status: 'APPROVED', page: 2, page_size: 50 });
+      const { req_time, merchant_id, status, page, pagination } = payload.fields;
+
+      expect(page).toBe('2');
+      expect(pagination).toBe('50');
+      expect(payload.hash).toBe(client.create_hash([req_time, merchant_id, status, page, pagination]));
+    });
+
+    it('should sign every filter in ABA hash order', () => {
+      const client = new PayWayClient("http://example.com", "1", "1");
+
+      const payload = client.buildTransactionListPayload({
+        page_size: 20,
+        currency: 'USD',
+        payment_option: ['abapay_khqr', 'cards'],
+        status: ['APPROVED', 'REFUNDED'],
+        amount_range: { min: 10, max: 100 },
+        date_range: { from: '20240101000000', to: '20240131235959' },
+        page: 1
+      });
+      const { hash, ...signed } = payload.fields;
+
+      expect(Object.keys(signed)).toEqual([
+        'req_time', 'merchant_id', 'from_date', 'to_date', 'from_amount', 'to_amount',
+        'status', 'payment_option', 'currency', 'page', 'pagination'
+      ]);
+      expect(signed).toMatchObject({
+        from_amount: '10',
+        to_amount: '100',
+        status: 'APPROVED,REFUNDED',
+        payment_option: 'abapay_khqr,cards'
+      });
+      expect(hash).toBe(client.create_hash(Object.values(signed)));
+    });
+
+    it('should prefer explicit amounts and skip empty arrays', () => {
+      const client = new PayWayClient("http://example.com", "1", "1");
+
+      const payload = client.buildTransactionListPayload({
+        from_amount: 5,
+        amount_range: { min: 10, max: 100 },
+        status: []
+      });
+
+      expect(payload.fields.from_amount).toBe('5');
+      expect(payload.fields.to_amount).toBe('100');
+      expect(payload.fields).not.toHaveProperty('status');
+    });
   });
 
   describe('payload structure', () => {
@@ -340,9 +427,12 @@ describe('PayWayClient', () => {
 
     it('should execute check transaction successfully and return JSON', async () => {
       const mockResponse = {
-        status: 'APPROVED',
-        tran_id: 'ORDER-123',
-        amount: '100'
+        status: 0,
+        description: 'approved',
+        amount: 100,
+        total: 100,
+        payment_status: 0,
+        datetime: '2024-01-15 10:30:00'
       };
 
       global.fetch = vi.fn().mockResolvedValue({
@@ -356,7 +446,7 @@ describe('PayWayClient', () => {
       const result = await client.execute(payload);
 
       expect(result).toEqual(mockResponse);
-      expect(result.status).toBe('APPROVED');
+      expect(result.status).toBe(0);
     });
 
     it('should throw error when payment_option is abapay without allowHtml', async () => {
@@ -397,7 +487,7 @@ describe('PayWayClient', () => {
     it('should execute transaction with cards payment option and return JSON', async () => {
       const mockResponse = {
         transaction_id: 'TXN-123',
-        status: 'SUCCESS',
+        status: { code: '00', message: 'Success!' },
         amount: '100'
       };
 
@@ -458,10 +548,11 @@ describe('PayWayClient', () => {
 
     it('should execute transaction list and return JSON', async () => {
       const mockResponse = {
-        transactions: [
+        data: [
           { tran_id: 'ORDER-1', amount: '100', status: 'APPROVED' },
           { tran_id: 'ORDER-2', amount: '200', status: 'APPROVED' }
-        ]
+        ],
+        status: { code: '00', message: 'Success!' }
       };
 
       global.fetch = vi.fn().mockResolvedValue({
@@ -478,11 +569,14 @@ describe('PayWayClient', () => {
       const result = await client.execute(payload);
       
       expect(result).toEqual(mockResponse);
-      expect(result.transactions).toHaveLength(2);
+      expect(result.data).toHaveLength(2);
     });
 
     it('should handle unknown content-type and try JSON first', async () => {
-      const mockResponse = { success: true };
+      const mockResponse = {
+        data: { payment_status: 'PENDING', total_amount: 10 },
+        status: { code: '00', message: 'Success!' }
+      };
 
       global.fetch = vi.fn().mockResolvedValue({
         ok: true,
@@ -506,7 +600,7 @@ describe('PayWayClient', () => {
         return {
           ok: true,
           headers: new Headers({ 'content-type': 'application/json' }),
-          json: async () => ({ success: true })
+          json: async () => ({ status: 0, amount: 1, total: 1, payment_status: 2, datetime: '' })
         };
       }) as any;
 
@@ -574,11 +668,16 @@ WHERcKgSSPtFC7ZTrQIDAQAB
     });
 
     it('should include payout array in encrypted data', () => {
+      const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+        modulusLength: 1024,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+      });
       const client = new PayWayClient(
         "http://example.com",
         "merchant_123",
         "api_key_456",
-        mockRsaPublicKey
+        publicKey
       );
 
       const payout = [
@@ -596,6 +695,12 @@ WHERcKgSSPtFC7ZTrQIDAQAB
       expect(payload.fields.merchant_auth).toBeDefined();
       expect(typeof payload.fields.merchant_auth).toBe('string');
       expect(payload.fields.merchant_auth.length).toBeGreaterThan(0);
+      expect(decryptForTesting(payload, privateKey)).toEqual({
+        mc_id: "merchant_123",
+        tran_id: "ORDER-123",
+        complete_amount: 100,
+        payout
+      });
     });
 
     it('should handle multiple payout items', () => {
@@ -661,4 +766,534 @@ WHERcKgSSPtFC7ZTrQIDAQAB
       expect(payload.url).toContain('pre-auth-completion-with-payout');
     });
   });
+
+  describe('buildRefundPayload', () => {
+    // Generate a throwaway 1024-bit key pair so the encrypted payload can be decrypted
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 1024,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    });
+
+    it('should build refund payload', () => {
+      const client = new PayWayClient(
+        "https://checkout-sandbox.payway.com.kh/",
+        "merchant_123",
+        "api_key_456",
+        publicKey
+      );
+
+      const payload = client.buildRefundPayload({
+        tran_id: "ORDER-123",
+        refund_amount: 25
+      });
+
+      expect(payload.fields).toHaveProperty('merchant_auth');
+      expect(payload.fields).toHaveProperty('request_time');
+      expect(payload.fields).toHaveProperty('merchant_id', 'merchant_123');
+      expect(payload.fields).toHaveProperty('hash');
+      expect(payload.hash).toBe(payload.fields.hash);
+      expect(payload.url).toBe('https://checkout-sandbox.payway.com.kh/api/merchant-portal/merchant-access/online-transaction/refund');
+      expect(payload.method).toBe('POST');
+    });
+
+    it('should encrypt partial refund amount in merchant_auth', () => {
+      const client = new PayWayClient("http://example.com/", "merchant_123", "api_key_456", publicKey);
+
+      const payload = client.buildRefundPayload({
+        tran_id: "ORDER-123",
+        refund_amount: 25
+      });
+
+      expect(decryptForTesting(payload, privateKey)).toEqual({
+        mc_id: "merchant_123",
+        tran_id: "ORDER-123",
+        refund_amount: 25
+      });
+    });
+
+    it('should omit refund_amount for full refunds', () => {
+      const client = new PayWayClient("http://example.com/", "merchant_123", "api_key_456", publicKey);
+
+      const payload = client.buildRefundPayload({ tran_id: "ORDER-123" });
+
+      expect(decryptForTesting(payload, privateKey)).toEqual({
+        mc_id: "merchant_123",
+        tran_id: "ORDER-123"
+      });
+    });
+
+    it('should hash request_time + merchant_id + merchant_auth', () => {
+      const client = new PayWayClient("http://example.com/", "merchant_123", "api_key_456", publicKey);
+
+      const payload = client.buildRefundPayload({ tran_id: "ORDER-123", refund_amount: "10.50" });
+      const { request_time, merchant_id, merchant_auth } = payload.fields;
+
+      expect(payload.hash).toBe(client.create_hash([request_time, merchant_id, merchant_auth]));
+      expect(payload.hash).not.toBe(client.create_hash([merchant_auth, request_time, merchant_id]));
+    });
+
+    it('should throw error when RSA public key is not provided', () => {
+      const client = new PayWayClient("http://example.com/", "merchant_123", "api_key_456");
+
+      expect(() => {
+        client.buildRefundPayload({ tran_id: "ORDER-123" });
+      }).toThrow('RSA public key is required');
+    });
+  });
+
+  describe('typed operation methods', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    function mockJsonResponse(body: any) {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: async () => body
+      });
+      global.fetch = fetchMock as any;
+      return fetchMock;
+    }
+
+    const { publicKey } = generateKeyPairSync('rsa', {
+      modulusLength: 1024,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    });
+
+    it('should check transaction and return typed response', async () => {
+      const fetchMock = mockJsonResponse({
+        data: {
+          payment_status_code: 0,
+          payment_status: 'APPROVED',
+          total_amount: 100,
+          original_amount: 100,
+          refund_amount: 0,
+          discount_amount: 0,
+          payment_amount: 100,
+          payment_currency: 'USD',
+          apv: '123456'
+        },
+        status: { code: '00', message: 'Success!', tran_id: 'ORDER-123' }
+      });
+
+      const client = new PayWayClient("http://example.com/", "1", "1");
+      const result = await client.checkTransaction('ORDER-123');
+
+      expect(result.data?.payment_status).toBe('APPROVED');
+      expect(result.status.code).toBe('00');
+      expect(fetchMock.mock.calls[0][0]).toBe('http://example.com/api/payment-gateway/v1/payments/check-transaction');
+    });
+
+    it('should list transactions and return typed records', async () => {
+      mockJsonResponse({
+        data: [
+          { transaction_id: 'ORDER-1', transaction_date: '2024-01-15 10:30:00', payment_status: 'APPROVED', original_amount: 100, original_currency: 'USD', total_amount: 100 },
+          { transaction_id: 'ORDER-2', transaction_date: '2024-01-15 11:00:00', payment_status: 'REFUNDED', original_amount: 50, original_currency: 'USD', total_amount: 0 }
+        ],
+        page: '1',
+        pagination: '20',
+        status: { code: '00', message: 'Success!' }
+      });
+
+      const client = new PayWayClient("http://example.com/", "1", "1");
+      const result = await client.listTransactions({ status: 'APPROVED' });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.data[0].transaction_id).toBe('ORDER-1');
+      expect(result.data[1].payment_status).toBe('REFUNDED');
+    });
+
+    it('should iterate every page of transactions', async () => {
+      const record = (id: number) => ({ transaction_id: `ORDER-${id}`, payment_status: 'APPROVED', total_amount: 1 });
+      const pages = [[record(1), record(2)], [record(3), record(4)], [record(5)]];
+      const fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+        const page = Number((init.body as FormData).get('page'));
+        return {
+          ok: true,
+          headers: new Headers({ 'content-type': 'application/json' }),
+          json: async () => ({ data: pages[page - 1], status: { code: '00', message: 'Success!' } })
+        };
+      });
+      global.fetch = fetchMock as any;
+
+      const client = new PayWayClient("http://example.com/", "1", "1");
+      const ids: string[] = [];
+      for await (const transaction of client.iterateTransactions({ page_size: 2 })) {
+        ids.push(transaction.transaction_id);
+      }
+
+      expect(ids).toEqual(['ORDER-1', 'ORDER-2', 'ORDER-3', 'ORDER-4', 'ORDER-5']);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should complete and cancel pre-auth with typed responses', async () => {
+      const fetchMock = mockJsonResponse({
+        grand_total: 100,
+        currency: 'USD',
+        transaction_status: 'COMPLETED',
+        status: { code: '00', message: 'Success!' }
+      });
+
+      const client = new PayWayClient("http://example.com/", "1", "1", publicKey);
+      const completed = await client.completePreAuth({ tran_id: 'ORDER-1', complete_amount: 100 });
+      expect(completed.transaction_status).toBe('COMPLETED');
+      expect(fetchMock.mock.calls[0][0]).toContain('/pre-auth-completion');
+
+      await client.cancelPreAuth({ tran_id: 'ORDER-1' });
+      expect(fetchMock.mock.calls[1][0]).toContain('/pre-auth-cancellation');
+    });
+
+    it('should refund with typed response', async () => {
+      const fetchMock = mockJsonResponse({
+        grand_total: 100,
+        total_refunded: 25,
+        currency: 'USD',
+        transaction_status: 'REFUNDED',
+        status: { code: '00', message: 'Success!' }
+      });
+
+      const client = new PayWayClient("http://example.com/", "1", "1", publicKey);
+      const result = await client.refund({ tran_id: 'ORDER-1', refund_amount: 25 });
+
+      expect(result.total_refunded).toBe(25);
+      expect(fetchMock.mock.calls[0][0]).toContain('/online-transaction/refund');
+    });
+
+    it('should create transaction and return QR data', async () => {
+      mockJsonResponse({
+        status: { code: '0', message: 'Success!', tran_id: 'ORDER-1' },
+        qr_string: '000201010212...',
+        abapay_deeplink: 'abamobilebank://...',
+        checkout_qr_url: 'https://checkout.payway.com.kh/qr'
+      });
+
+      const client = new PayWayClient("http://example.com/", "1", "1");
+      const result = await client.createTransaction({
+        tran_id: 'ORDER-1',
+        amount: 10,
+        payment_option: 'abapay_khqr'
+      });
+
+      expect(result.qr_string).toBe('000201010212...');
+    });
+  });
+
+  describe('response validation', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    function mockJsonResponse(body: any) {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: async () => body
+      }) as any;
+    }
+
+    it('should throw PayWayResponseError for non-00 status code on HTTP 200', async () => {
+      const body = { status: { code: '2', message: 'Transaction not found', tran_id: 'ORDER-404' } };
+      mockJsonResponse(body);
+
+      const client = new PayWayClient("http://example.com/", "1", "1");
+
+      try {
+        await client.checkTransaction('ORDER-404');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(PayWayResponseError);
+        const responseError = error as PayWayResponseError;
+        expect(responseError.code).toBe('2');
+        expect(responseError.statusCode).toBe(PayWayStatusCode.InvalidTransactionId);
+        expect(responseError.tran_id).toBe('ORDER-404');
+        expect(responseError.message).toContain('Transaction not found');
+        expect(responseError.body).toEqual(body);
+      }
+    });
+
+    it('should leave statusCode undefined for unknown codes', async () => {
+      mockJsonResponse({ status: { code: 'PTL99', message: 'Unknown' } });
+
+      const client = new PayWayClient("http://example.com/", "1", "1");
+
+      await expect(client.listTransactions()).rejects.toMatchObject({
+        code: 'PTL99',
+        statusCode: undefined
+      });
+    });
+
+    it('should throw when a successful response does not match the operation schema', async () => {
+      mockJsonResponse({ status: { code: '00', message: 'Success!' }, data: null });
+
+      const client = new PayWayClient("http://example.com/", "1", "1");
+
+      try {
+        await client.listTransactions();
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(PayWayResponseError);
+        expect((error as PayWayResponseError).issues).toEqual(['data must be an array']);
+      }
+    });
+
+    it('should throw when status block is missing', async () => {
+      mockJsonResponse({ success: true });
+
+      const client = new PayWayClient("http://example.com/", "1", "1");
+
+      await expect(client.checkTransaction('ORDER-1')).rejects.toThrow('missing status.code');
+    });
+
+    it('should accept valid responses and numeric string amounts', async () => {
+      const body = {
+        data: { payment_status: 'APPROVED', total_amount: '10.00' },
+        status: { code: '00', message: 'Success!' }
+      };
+      mockJsonResponse(body);
+
+      const client = new PayWayClient("http://example.com/", "1", "1");
+
+      await expect(client.checkTransaction('ORDER-1')).resolves.toEqual(body);
+    });
+
+    it('should accept legacy check-transaction responses with a numeric status', async () => {
+      const body = {
+        status: 0,
+        description: 'approved',
+        amount: 10,
+        total: 10,
+        payment_status: 0,
+        datetime: '2024-01-15 10:30:00'
+      };
+      mockJsonResponse(body);
+
+      const client = new PayWayClient("http://example.com/", "1", "1");
+      const result = await client.checkTransaction('ORDER-1');
+
+      expect(result).toEqual(body);
+      expect(getPaymentStatus(result)).toBe('APPROVED');
+    });
+
+    it('should validate legacy check-transaction fields', async () => {
+      mockJsonResponse({ status: 0, description: 'approved' });
+
+      const client = new PayWayClient("http://example.com/", "1", "1");
+
+      await expect(client.checkTransaction('ORDER-1')).rejects.toMatchObject({
+        issues: ['payment_status must be a numeric', 'total must be a numeric']
+      });
+    });
+
+    it('should read the payment status from either response format', () => {
+      expect(getPaymentStatus({
+        data: { payment_status: 'PRE-AUTH' } as any,
+        status: { code: '00', message: 'Success!' }
+      })).toBe('PRE-AUTH');
+      expect(getPaymentStatus({ status: 0, amount: 1, total: 1, payment_status: 3, datetime: '' })).toBe('DECLINED');
+      expect(getPaymentStatus({ status: 0, amount: 1, total: 1, payment_status: 99, datetime: '' })).toBeUndefined();
+    });
+
+    it('should skip validation when validateResponse is false', async () => {
+      const body = { status: { code: '1', message: 'Wrong hash' } };
+      mockJsonResponse(body);
+
+      const client = new PayWayClient("http://example.com/", "1", "1");
+
+      await expect(
+        client.checkTransaction('ORDER-1', { validateResponse: false })
+      ).resolves.toEqual(body);
+    });
+  });
+
+  describe('toPayWayStatusCode', () => {
+    it('should map raw codes to the enum', () => {
+      expect(toPayWayStatusCode('00')).toBe(PayWayStatusCode.Success);
+      expect(toPayWayStatusCode('0')).toBe(PayWayStatusCode.Success);
+      expect(toPayWayStatusCode('4')).toBe(PayWayStatusCode.DuplicateTransactionId);
+      expect(toPayWayStatusCode(1)).toBe(PayWayStatusCode.InvalidHash);
+    });
+
+    it('should return undefined for unknown codes', () => {
+      expect(toPayWayStatusCode('999')).toBeUndefined();
+      expect(toPayWayStatusCode('abc')).toBeUndefined();
+      expect(toPayWayStatusCode('')).toBeUndefined();
+      expect(toPayWayStatusCode(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('transport options', () => {
+    const okBody = {
+      data: { payment_status: 'APPROVED', total_amount: 10 },
+      status: { code: '00', message: 'Success!' }
+    };
+
+    function jsonResponse(body: any): Response {
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      });
+    }
+
+    // Never resolves until the signal aborts, like a hung endpoint
+    function hangingFetch() {
+      return vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+      }));
+    }
+
+    it('should use the fetch passed to the constructor', async () => {
+      const fetchMock = vi.fn(async () => jsonResponse(okBody));
+      const client = new PayWayClient("http://example.com/", "1", "1", undefined, { fetch: fetchMock });
+
+      const result = await client.checkTransaction('ORDER-1');
+
+      expect(result).toEqual(okBody);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should prefer the fetch passed to execute', async () => {
+      const clientFetch = vi.fn(async () => jsonResponse(okBody));
+      const callFetch = vi.fn(async () => jsonResponse(okBody));
+      const client = new PayWayClient("http://example.com/", "1", "1", undefined, { fetch: clientFetch });
+
+      await client.checkTransaction('ORDER-1', { fetch: callFetch });
+
+      expect(callFetch).toHaveBeenCalledTimes(1);
+      expect(clientFetch).not.toHaveBeenCalled();
+    });
+
+    it('should merge client and call headers', async () => {
+      const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => jsonResponse(okBody));
+      const client = new PayWayClient("http://example.com/", "1", "1", undefined, {
+        fetch: fetchMock,
+        headers: { 'x-client': 'a', 'x-override': 'client' }
+      });
+
+      await client.checkTransaction('ORDER-1', { headers: { 'x-override': 'call' } });
+
+      expect(fetchMock.mock.calls[0][1].headers).toEqual({ 'x-client': 'a', 'x-override': 'call' });
+    });
+
+    it('should throw PayWayNetworkError with code TIMEOUT when timeoutMs elapses', async () => {
+      const client = new PayWayClient("http://example.com/", "1", "1", undefined, {
+        fetch: hangingFetch(),
+        timeoutMs: 20
+      });
+
+      await expect(client.checkTransaction('ORDER-1')).rejects.toMatchObject({
+        name: 'PayWayNetworkError',
+        code: 'TIMEOUT'
+      });
+    });
+
+    it('should throw PayWayNetworkError with code ABORTED when the signal aborts', async () => {
+      const client = new PayWayClient("http://example.com/", "1", "1", undefined, { fetch: hangingFetch() });
+      const controller = new AbortController();
+
+      const promise = client.checkTransaction('ORDER-1', { signal: controller.signal });
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({
+        name: 'PayWayNetworkError',
+        code: 'ABORTED'
+      });
+    });
+
+    it('should not send the request when the signal is already aborted', async () => {
+      const fetchMock = vi.fn(async () => jsonResponse(okBody));
+      const client = new PayWayClient("http://example.com/", "1", "1", undefined, { fetch: fetchMock });
+
+      await expect(
+        client.checkTransaction('ORDER-1', { signal: AbortSignal.abort() })
+      ).rejects.toMatchObject({ code: 'ABORTED' });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PayWayClient.create', () => {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 1024,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    });
+    const credentials = { merchantId: 'merchant_123', apiKey: 'api_key_456' };
+
+    it('should resolve environment presets', () => {
+      expect(PayWayClient.create({ environment: 'sandbox', ...credentials }).base_url)
+        .toBe('https://checkout-sandbox.payway.com.kh/');
+      expect(PayWayClient.create({ environment: 'production', ...credentials }).base_url)
+        .toBe('https://checkout.payway.com.kh/');
+    });
+
+    it('should normalize the trailing slash of custom base URLs', () => {
+      const client = PayWayClient.create({
+        environment: { baseUrl: 'https://payway.example.com/proxy' },
+        ...credentials
+      });
+
+      expect(client.base_url).toBe('https://payway.example.com/proxy/');
+      expect(client.buildCheckTransactionPayload('ORDER-1').url)
+        .toBe('https://payway.example.com/proxy/api/payment-gateway/v1/payments/check-transaction');
+    });
+
+    it('should reject non-HTTPS base URLs', () => {
+      expect(() => PayWayClient.create({
+        environment: { baseUrl: 'http://checkout.payway.com.kh/' },
+        ...credentials
+      })).toThrow(PayWayConfigError);
+    });
+
+    it('should reject unknown environments and invalid URLs', () => {
+      expect(() => PayWayClient.create({ environment: 'staging' as any, ...credentials }))
+        .toThrow('Unknown PayWay environment');
+      for (const inherited of ['constructor', 'toString', '__proto__']) {
+        expect(() => PayWayClient.create({ environment: inherited as any, ...credentials }))
+          .toThrow(PayWayConfigError);
+      }
+      expect(() => PayWayClient.create({ environment: { baseUrl: 'not a url' }, ...credentials }))
+        .toThrow('Invalid PayWay base URL');
+    });
+
+    it('should require merchantId and apiKey', () => {
+      expect(() => PayWayClient.create({ environment: 'sandbox', merchantId: '', apiKey: 'key' }))
+        .toThrow('merchantId is required');
+      expect(() => PayWayClient.create({ environment: 'sandbox', merchantId: 'id', apiKey: ' ' }))
+        .toThrow('apiKey is required');
+    });
+
+    it('should validate the RSA public key at construction time', () => {
+      const client = PayWayClient.create({ environment: 'sandbox', ...credentials, rsaPublicKey: publicKey });
+      expect(client.rsa_public_key).toBe(publicKey);
+
+      for (const rsaPublicKey of [privateKey, 'not a key', '-----BEGIN PUBLIC KEY-----\ngarbage\n-----END PUBLIC KEY-----']) {
+        try {
+          PayWayClient.create({ environment: 'sandbox', ...credentials, rsaPublicKey });
+          expect.unreachable();
+        } catch (error) {
+          expect(error).toBeInstanceOf(PayWayConfigError);
+          expect((error as PayWayConfigError).code).toBe('INVALID_RSA_PUBLIC_KEY');
+        }
+      }
+    });
+
+    it('should pass transport options to the client', async () => {
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+        data: { payment_status: 'APPROVED', total_amount: 1 },
+        status: { code: '00', message: 'Success!' }
+      }), { headers: { 'content-type': 'application/json' } }));
+
+      const client = PayWayClient.create({ environment: 'sandbox', ...credentials, fetch: fetchMock });
+      await client.checkTransaction('ORDER-1');
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
 });
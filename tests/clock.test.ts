@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import {
+  PayWayClient,
+  PayWayConfigError,
+  fixedClock,
+  formatRequestTime,
+  parseRequestTime,
+  generateTranId
+} from '../src/index.js';
+
+const { publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 1024,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+describe('formatRequestTime', () => {
+  it('should format in Cambodia time regardless of the server time zone', () => {
+    expect(formatRequestTime(new Date('2024-01-15T03:30:00Z'))).toBe('20240115103000');
+    expect(formatRequestTime(new Date('2024-12-31T17:00:05Z'))).toBe('20250101000005');
+    expect(formatRequestTime(new Date('2024-01-15T10:30:00+07:00'))).toBe('20240115103000');
+  });
+});
+
+describe('parseRequestTime', () => {
+  it('should read the value as Cambodia time', () => {
+    expect(parseRequestTime('20240115103000').toISOString()).toBe('2024-01-15T03:30:00.000Z');
+    expect(parseRequestTime('20250101000005').toISOString()).toBe('2024-12-31T17:00:05.000Z');
+  });
+
+  it('should round-trip formatRequestTime outside UTC+7', () => {
+    const originalTZ = process.env.TZ;
+    process.env.TZ = 'UTC';
+    try {
+      const date = new Date('2024-03-10T23:59:59Z');
+      expect(parseRequestTime(formatRequestTime(date)).getTime()).toBe(date.getTime());
+    } finally {
+      process.env.TZ = originalTZ;
+    }
+  });
+
+  it('should return an invalid Date for malformed values', () => {
+    expect(Number.isNaN(parseRequestTime('2024-01-15').getTime())).toBe(true);
+    expect(Number.isNaN(parseRequestTime('20241315103000').getTime())).toBe(true);
+    expect(Number.isNaN(parseRequestTime('20240115243000').getTime())).toBe(true);
+  });
+});
+
+describe('client clock', () => {
+  const clock = fixedClock('2024-01-15T03:30:00Z');
+  const client = new PayWayClient('http://example.com/', 'merchant', 'key', publicKey, { clock });
+
+  it('should sign req_time from the clock reproducibly', () => {
+    const params = { tran_id: 'ORDER-123', amount: 10 };
+    const first = client.buildTransactionPayload(params);
+    const second = client.buildTransactionPayload(params);
+
+    expect(first.fields.req_time).toBe('20240115103000');
+    expect(first.hash).toBe(second.hash);
+    expect(first.hash).toBe(client.create_hash(['20240115103000', 'merchant', 'ORDER-123', '10']));
+  });
+
+  it('should use the clock for request_time', () => {
+    expect(client.buildCancelPreAuthPayload({ tran_id: 'ORDER-123' }).fields.request_time).toBe('20240115103000');
+    expect(client.buildRefundPayload({ tran_id: 'ORDER-123' }).fields.request_time).toBe('20240115103000');
+  });
+
+  it('should reject an invalid fixed date', () => {
+    expect(() => fixedClock('not a date')).toThrow(PayWayConfigError);
+  });
+});
+
+describe('generateTranId', () => {
+  const clock = fixedClock('2024-01-15T03:30:00Z');
+
+  it('should combine prefix, time and random suffix within 20 characters', () => {
+    const id = generateTranId({ prefix: 'ORD-', clock });
+
+    expect(id).toHaveLength(20);
+    expect(id).toMatch(/^ORD-LREDA280[0-9A-Z]{8}$/);
+    expect(generateTranId({ clock, length: 12 })).toMatch(/^LREDA280[0-9A-Z]{4}$/);
+  });
+
+  it('should not collide within the same millisecond', () => {
+    const ids = new Set(Array.from({ length: 1000 }, () => generateTranId({ clock })));
+
+    expect(ids.size).toBe(1000);
+  });
+
+  it('should sort by creation time', () => {
+    const earlier = generateTranId({ clock: fixedClock('2024-01-15T03:30:00Z') });
+    const later = generateTranId({ clock: fixedClock('2024-01-15T03:30:01Z') });
+
+    expect(earlier < later).toBe(true);
+  });
+
+  it('should reject prefixes that do not fit or break the charset', () => {
+    expect(() => generateTranId({ prefix: 'ORDER-2024-' })).toThrow(/at most 8 characters fit/);
+    expect(() => generateTranId({ prefix: 'ORD 1' })).toThrow(
+      expect.objectContaining({ code: 'INVALID_TRAN_ID_PREFIX' })
+    );
+  });
+});
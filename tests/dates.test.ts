@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { dayRange, fixedClock, formatPayWayDate, monthRange } from '../src/index.js';
+
+describe('formatPayWayDate', () => {
+  it('should format Date objects in Cambodia time', () => {
+    expect(formatPayWayDate(new Date('2024-01-15T03:30:00Z'))).toBe('20240115103000');
+    expect(formatPayWayDate('20240101000000')).toBe('20240101000000');
+  });
+});
+
+describe('date ranges', () => {
+  // 23:30 UTC on Jan 31 is already Feb 1 in Phnom Penh
+  const clock = fixedClock('2024-01-31T23:30:00Z');
+
+  it('should cover the Cambodia calendar day', () => {
+    const { from, to } = dayRange(clock());
+
+    expect(from.toISOString()).toBe('2024-01-31T17:00:00.000Z');
+    expect(to.toISOString()).toBe('2024-02-01T16:59:59.999Z');
+    expect([formatPayWayDate(from), formatPayWayDate(to)]).toEqual(['20240201000000', '20240201235959']);
+  });
+
+  it('should cover the Cambodia calendar month', () => {
+    const { from, to } = monthRange(clock());
+
+    expect([formatPayWayDate(from), formatPayWayDate(to)]).toEqual(['20240201000000', '20240229235959']);
+  });
+
+  it('should not depend on the server time zone', () => {
+    const originalTZ = process.env.TZ;
+    process.env.TZ = 'America/Los_Angeles';
+    try {
+      expect(formatPayWayDate(dayRange(clock()).from)).toBe('20240201000000');
+      expect(formatPayWayDate(monthRange(clock()).to)).toBe('20240229235959');
+    } finally {
+      process.env.TZ = originalTZ;
+    }
+  });
+});
@@ -0,0 +1,15 @@
+import { vi } from 'vitest';
+
+// JSON response as PayWay sends it
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' }
+  });
+}
+
+// Fetch double for the client's fetch option: answers with the bodies in order, then repeats the last
+export function mockJsonFetch(...bodies: unknown[]) {
+  let calls = 0;
+  return vi.fn(async (_url: string, _init: RequestInit) => jsonResponse(bodies[Math.min(calls++, bodies.length - 1)]));
+}
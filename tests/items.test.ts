@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { PayWayClient, PayWayConfigError, cartTotal, encodeItems, money } from '../src/index.js';
+
+const cart = [
+  { name: 'Iced Latte', quantity: 2, price: 2.75 },
+  { name: 'Croissant', quantity: 3, price: 0.1 }
+];
+
+const decode = (value: string) => JSON.parse(Buffer.from(value, 'base64').toString());
+
+describe('cartTotal', () => {
+  it('should add items and shipping without float drift', () => {
+    expect(cartTotal(cart)).toBe(5.8);
+    expect(cartTotal(cart, 1.5)).toBe(7.3);
+    expect(cartTotal([{ name: 'Num Pang', quantity: 2, price: 4500 }], 2000, 'KHR')).toBe(11000);
+  });
+
+  it('should accept prices and shipping as decimal strings or Money', () => {
+    const items = [
+      { name: 'Iced Latte', quantity: 2, price: '2.75' },
+      { name: 'Croissant', quantity: 3, price: money(0.1) }
+    ];
+
+    expect(cartTotal(items, '1.50')).toBe(7.3);
+    expect(cartTotal(items, money(1.5))).toBe(7.3);
+    expect(() => cartTotal(items, money(1500, 'KHR'))).toThrow(expect.objectContaining({ code: 'CURRENCY_MISMATCH' }));
+    expect(decode(encodeItems(items))).toEqual(cart);
+  });
+
+  it('should reject malformed items', () => {
+    const invalid = (items: any[], message: RegExp, currency?: string) => {
+      const fn = () => cartTotal(items, 0, currency);
+      expect(fn).toThrow(PayWayConfigError);
+      expect(fn).toThrow(message);
+    };
+
+    invalid([], /at least one item/);
+    invalid([{ name: ' ', quantity: 1, price: 1 }], /#1 needs a name/);
+    invalid([{ name: 'Tea', quantity: 1.5, price: 1 }], /quantity of "Tea"/);
+    invalid([{ name: 'Tea', quantity: 1, price: -1 }], /price of "Tea" -1: must be a non-negative number/);
+    invalid([{ name: 'Tea', quantity: 1, price: '1.0.0' }], /price of "Tea" "1.0.0": expected a decimal number/);
+    invalid([{ name: 'Tea', quantity: 1, price: 1.005 }], /2 decimal places for USD/);
+    invalid([{ name: 'Tea', quantity: 1, price: 4000.5 }], /0 decimal places for KHR/, 'KHR');
+    expect(() => cartTotal(cart, -1)).toThrow(expect.objectContaining({ code: 'INVALID_ITEMS' }));
+  });
+});
+
+describe('encodeItems', () => {
+  it('should encode only name, quantity and price', () => {
+    const items = [{ name: ' Tea ', quantity: 1, price: 1.5, sku: 'TEA-01' }];
+
+    expect(decode(encodeItems(items))).toEqual([{ name: 'Tea', quantity: 1, price: 1.5 }]);
+  });
+});
+
+describe('buildTransactionPayload items', () => {
+  it('should encode items and compute the amount with shipping', () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+
+    const payload = client.buildTransactionPayload({ tran_id: 'ORDER-123', items: cart, shipping: 1.5 });
+    const { hash, ...signed } = payload.fields;
+
+    expect(signed.amount).toBe('7.3');
+    expect(signed.shipping).toBe('1.5');
+    expect(decode(signed.items)).toEqual(cart);
+    expect(hash).toBe(client.create_hash(Object.values(signed)));
+  });
+
+  it('should accept an amount that matches and reject one that does not', () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+
+    expect(client.buildTransactionPayload({ amount: '7.30', items: cart, shipping: 1.5 }).fields.amount).toBe('7.30');
+    expect(() => client.buildTransactionPayload({ amount: 5.8, items: cart, shipping: 1.5 })).toThrow(
+      expect.objectContaining({ code: 'AMOUNT_MISMATCH' })
+    );
+    expect(() => client.buildGenerateQRPayload({ tran_id: 'ORDER-123', amount: 6, items: cart })).toThrow(
+      /does not match the items and shipping \(5.8 USD\)/
+    );
+  });
+
+  it('should accept Money shipping and string prices', () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+
+    const payload = client.buildTransactionPayload({
+      items: [{ name: 'Num Pang', quantity: 2, price: '4500' }],
+      shipping: money(2000, 'KHR'),
+      currency: 'KHR'
+    });
+
+    expect(payload.fields).toMatchObject({ amount: '11000', shipping: '2000', currency: 'KHR' });
+    expect(decode(payload.fields.items)).toEqual([{ name: 'Num Pang', quantity: 2, price: 4500 }]);
+  });
+
+  it('should resolve payout splits against the computed amount', () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+
+    const payload = client.buildTransactionPayload({
+      items: cart,
+      shipping: 1.5,
+      payout: [{ acc: '123456', percent: 50 }]
+    });
+
+    expect(decode(payload.fields.payout)).toEqual([{ acc: '123456', amt: 3.65 }]);
+  });
+
+  it('should resolve KHQR payout splits against the amount computed from items', () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+
+    const payload = client.buildGenerateQRPayload({
+      tran_id: 'ORDER-123',
+      items: cart,
+      payout: [{ acc: '123456', percent: 50 }]
+    });
+
+    expect(payload.fields.amount).toBe('5.8');
+    expect(decode(payload.fields.payout)).toEqual([{ acc: '123456', amt: 2.9 }]);
+  });
+
+  it('should send string items as given', () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+
+    const payload = client.buildTransactionPayload({ amount: 1, items: 'W10=' });
+
+    expect(payload.fields.items).toBe('W10=');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import {
+  PayWayClient,
+  PayWayConfigError,
+  money,
+  moneyFromMinor,
+  formatMoney,
+  toMinorUnits,
+  fromMinorUnits,
+  decryptForTesting
+} from '../src/index.js';
+
+const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+  modulusLength: 1024,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+describe('Money', () => {
+  it('should convert to and from minor units per currency', () => {
+    expect(money(9.99)).toEqual({ currency: 'USD', minor_units: 999 });
+    expect(money('4100', 'KHR')).toEqual({ currency: 'KHR', minor_units: 4100 });
+    expect(toMinorUnits(0.1 + 0.2)).toBe(30);
+    expect(fromMinorUnits(1050)).toBe(10.5);
+    expect(formatMoney(moneyFromMinor(1050))).toBe('10.50');
+    expect(formatMoney(money(4100, 'KHR'))).toBe('4100');
+  });
+
+  it('should reject amounts the currency cannot represent', () => {
+    expect(() => money(10.005)).toThrow(/more than 2 decimal places for USD/);
+    expect(() => money(4100.5, 'KHR')).toThrow(/more than 0 decimal places for KHR/);
+    expect(() => money('1e3')).toThrow(expect.objectContaining({ code: 'INVALID_AMOUNT' }));
+    expect(() => money(-1)).toThrow(PayWayConfigError);
+    expect(() => moneyFromMinor(10.5)).toThrow(/non-negative integer/);
+    expect(() => toMinorUnits(money(1), 'KHR')).toThrow(expect.objectContaining({ code: 'CURRENCY_MISMATCH' }));
+  });
+});
+
+describe('amounts in payloads', () => {
+  const client = new PayWayClient("http://example.com/", "merchant", "key", publicKey);
+
+  it('should sign rounded purchase amounts', () => {
+    const payload = client.buildTransactionPayload({ tran_id: 'ORDER-123', amount: 0.1 + 0.2, shipping: 1.1 + 2.2 });
+    const { hash, ...signed } = payload.fields;
+
+    expect(signed.amount).toBe('0.3');
+    expect(signed.shipping).toBe('3.3');
+    expect(hash).toBe(client.create_hash(Object.values(signed)));
+  });
+
+  it('should take the currency from Money', () => {
+    const payload = client.buildTransactionPayload({ tran_id: 'ORDER-123', amount: money(4100, 'KHR') });
+
+    expect(payload.fields).toMatchObject({ amount: '4100', currency: 'KHR' });
+    expect(() => client.buildTransactionPayload({ amount: money(1), currency: 'KHR' })).toThrow(
+      expect.objectContaining({ code: 'CURRENCY_MISMATCH' })
+    );
+    expect(() => client.buildTransactionPayload({ amount: 100.5, currency: 'KHR' })).toThrow(/KHR/);
+  });
+
+  it('should validate transaction list amount filters', () => {
+    const payload = client.buildTransactionListPayload({ amount_range: { min: money(10), max: 0.1 + 0.2 } });
+
+    expect(payload.fields).toMatchObject({ from_amount: '10', to_amount: '0.3' });
+    expect(() => client.buildTransactionListPayload({ from_amount: 10.001 })).toThrow(/from_amount/);
+  });
+
+  it('should check refunds and token purchases', () => {
+    expect(() => client.buildRefundPayload({ tran_id: 'ORDER-123', refund_amount: '10.505' })).toThrow(/refund_amount/);
+    expect(() =>
+      client.buildTokenPurchasePayload({ tran_id: 'SUB-1', ctid: 'C', pwt: 'P', amount: 100.5, currency: 'KHR' })
+    ).toThrow(PayWayConfigError);
+  });
+});
+
+describe('pre-auth completion', () => {
+  const client = new PayWayClient("http://example.com/", "merchant", "key", publicKey);
+
+  it('should allow completing up to 10% above the authorized amount', () => {
+    const payload = client.buildCompletePreAuthPayload({
+      tran_id: 'ORDER-123',
+      complete_amount: 110,
+      authorized_amount: 100
+    });
+
+    expect(decryptForTesting(payload, privateKey)).toMatchObject({ complete_amount: 110 });
+    expect(() =>
+      client.buildCompletePreAuthPayload({ tran_id: 'ORDER-123', complete_amount: 110.01, authorized_amount: 100 })
+    ).toThrow(expect.objectContaining({ code: 'COMPLETE_AMOUNT_TOO_HIGH' }));
+    expect(() =>
+      client.buildCompletePreAuthPayload({ tran_id: 'ORDER-123', complete_amount: 9.999 })
+    ).toThrow(/complete_amount/);
+  });
+
+  it('should validate payouts against the completed amount', () => {
+    const payload = client.buildCompletePreAuthWithPayoutPayload({
+      tran_id: 'ORDER-123',
+      complete_amount: money(4100, 'KHR'),
+      payout: [{ acc: ' 123456 ', amt: 4000 }]
+    });
+
+    expect(decryptForTesting(payload, privateKey)).toMatchObject({
+      complete_amount: 4100,
+      payout: [{ acc: '123456', amt: 4000 }]
+    });
+    expect(() =>
+      client.buildCompletePreAuthWithPayoutPayload({
+        tran_id: 'ORDER-123',
+        complete_amount: 100,
+        payout: [{ acc: '123456', amt: 80 }, { acc: '789012', amt: 30 }]
+      })
+    ).toThrow(expect.objectContaining({ code: 'INVALID_PAYOUT' }));
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { PayWayClient, PayWayResponseError } from '../src/index.js';
+import { mockJsonFetch } from './helpers.js';
+
+describe('payment links', () => {
+  const link = {
+    id: 'PL-1',
+    title: 'Invoice #1001',
+    amount: 25,
+    currency: 'USD',
+    status: 'ACTIVE',
+    payment_link: 'https://link.payway.com.kh/PL-1'
+  };
+  const success = { code: '00', message: 'Success!' };
+
+  describe('buildCreatePaymentLinkPayload', () => {
+    it('should serialize fields and sign them like create_payload', () => {
+      const client = new PayWayClient("http://example.com", "merchant", "key");
+      const payload = client.buildCreatePaymentLinkPayload({
+        title: ' Invoice #1001 ',
+        amount: 25,
+        currency: 'USD',
+        payment_limit: 1,
+        expired_date: new Date('2024-12-31T16:59:59Z'),
+        return_url: 'https://shop.example.com/paid'
+      });
+
+      expect(payload.url).toBe('http://example.com/api/merchant-portal/merchant-access/payment-link/create');
+      expect(payload.fields.title).toBe('Invoice #1001');
+      expect(payload.fields.expired_date).toBe('1735664399');
+      expect(payload.fields.return_url).toBe(Buffer.from('https://shop.example.com/paid').toString('base64'));
+      expect(payload.files).toBeUndefined();
+
+      const { hash, ...signed } = payload.fields;
+      expect(hash).toBe(client.create_hash(Object.values(signed)));
+    });
+
+    it('should attach the image as a file outside the hash', () => {
+      const client = new PayWayClient("http://example.com/", "merchant", "key");
+      const image = { content: new Uint8Array([1, 2, 3]), filename: 'logo.png', contentType: 'image/png' };
+      const payload = client.buildCreatePaymentLinkPayload({ title: 'Invoice', amount: 5, image });
+
+      expect(payload.files).toEqual({ image });
+      expect(payload.fields).not.toHaveProperty('image');
+    });
+  });
+
+  describe('other builders', () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+
+    it('should build get, list, update and deactivate payloads', () => {
+      const base = 'http://example.com/api/merchant-portal/merchant-access/payment-link/';
+
+      expect(client.buildGetPaymentLinkPayload({ id: 'PL-1' }).url).toBe(`${base}detail`);
+      expect(client.buildListPaymentLinksPayload({ status: 'ACTIVE', page: 2 }).fields).toMatchObject({
+        status: 'ACTIVE',
+        page: '2'
+      });
+
+      const update = client.buildUpdatePaymentLinkPayload({ id: 'PL-1', amount: 30 });
+      expect(update.url).toBe(`${base}update`);
+      expect(update.fields).toMatchObject({ id: 'PL-1', amount: '30' });
+      expect(update.fields).not.toHaveProperty('title');
+
+      const deactivate = client.buildDeactivatePaymentLinkPayload({ id: 'PL-1' });
+      expect(deactivate.url).toBe(`${base}update-status`);
+      expect(deactivate.fields).toMatchObject({ id: 'PL-1', status: 'INACTIVE' });
+    });
+  });
+
+  describe('typed methods', () => {
+    it('should upload the image as multipart form data', async () => {
+      const fetchMock = mockJsonFetch({ data: link, status: success });
+      const client = new PayWayClient("http://example.com/", "merchant", "key", undefined, { fetch: fetchMock });
+
+      const result = await client.createPaymentLink({
+        title: 'Invoice #1001',
+        amount: 25,
+        image: { content: new Uint8Array([1, 2, 3]), filename: 'logo.png', contentType: 'image/png' }
+      });
+
+      expect(result.data.payment_link).toBe(link.payment_link);
+      const body = fetchMock.mock.calls[0][1].body as FormData;
+      const image = body.get('image') as File;
+      expect(image.name).toBe('logo.png');
+      expect(image.type).toBe('image/png');
+      expect(new Uint8Array(await image.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    it('should return typed list and deactivate responses', async () => {
+      const fetchMock = mockJsonFetch(
+        { data: [link], page: 1, status: success },
+        { data: { ...link, status: 'INACTIVE' }, status: success }
+      );
+      const client = new PayWayClient("http://example.com/", "merchant", "key", undefined, { fetch: fetchMock });
+
+      const list = await client.listPaymentLinks({ status: 'ACTIVE' });
+      expect(list.data[0].id).toBe('PL-1');
+
+      const deactivated = await client.deactivatePaymentLink('PL-1');
+      expect(deactivated.data.status).toBe('INACTIVE');
+    });
+
+    it('should throw PayWayResponseError when the link is missing from the response', async () => {
+      const fetchMock = mockJsonFetch({ status: success });
+      const client = new PayWayClient("http://example.com/", "merchant", "key", undefined, { fetch: fetchMock });
+
+      await expect(client.getPaymentLink('PL-1')).rejects.toBeInstanceOf(PayWayResponseError);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { PayWayClient, PayWayConfigError, money, resolvePayout } from '../src/index.js';
+
+describe('resolvePayout', () => {
+  it('should keep fixed amounts as they are', () => {
+    expect(resolvePayout([{ acc: ' 123456 ', amt: 80 }, { acc: '789012', amt: 19.99 }], 100)).toEqual([
+      { acc: '123456', amt: 80 },
+      { acc: '789012', amt: 19.99 }
+    ]);
+  });
+
+  it('should resolve percentages with the largest remainder', () => {
+    const thirds = [
+      { acc: 'A', percent: 100 / 3 },
+      { acc: 'B', percent: 100 / 3 },
+      { acc: 'C', percent: 100 / 3 }
+    ];
+
+    // 3333.33... cents each: the left-over cent goes to the first split
+    expect(resolvePayout(thirds, 100).map((item) => item.amt)).toEqual([33.34, 33.33, 33.33]);
+    expect(resolvePayout([{ acc: 'A', percent: 33.33 }, { acc: 'B', percent: 66.67 }], 10)).toEqual([
+      { acc: 'A', amt: 3.33 },
+      { acc: 'B', amt: 6.67 }
+    ]);
+    // 512.5 riel: the percentage total is rounded half up
+    expect(resolvePayout([{ acc: 'A', percent: 12.5 }], 4100, 'KHR')).toEqual([{ acc: 'A', amt: 513 }]);
+  });
+
+  it('should mix fixed amounts and percentages', () => {
+    expect(resolvePayout([{ acc: 'A', amt: 5 }, { acc: 'B', percent: 90 }], 50)).toEqual([
+      { acc: 'A', amt: 5 },
+      { acc: 'B', amt: 45 }
+    ]);
+  });
+
+  it('should accept decimal strings and Money as fixed amounts', () => {
+    expect(resolvePayout([{ acc: 'A', amt: '19.99' }, { acc: 'B', amt: money(80) }], 100)).toEqual([
+      { acc: 'A', amt: 19.99 },
+      { acc: 'B', amt: 80 }
+    ]);
+    expect(resolvePayout([{ acc: 'A', amt: money(1000, 'KHR') }], 4100, 'KHR')).toEqual([{ acc: 'A', amt: 1000 }]);
+    expect(() => resolvePayout([{ acc: 'A', amt: money(1000, 'KHR') }], 100)).toThrow(
+      expect.objectContaining({ code: 'INVALID_PAYOUT' })
+    );
+    expect(() => resolvePayout([{ acc: 'A', amt: 'ten' }], 100)).toThrow(
+      expect.objectContaining({ code: 'INVALID_PAYOUT' })
+    );
+  });
+
+  it('should reject invalid splits', () => {
+    const invalid = (fn: () => unknown, message: RegExp) => {
+      expect(fn).toThrow(PayWayConfigError);
+      expect(fn).toThrow(message);
+    };
+
+    invalid(() => resolvePayout([{ acc: 'A', amt: 80 }, { acc: 'B', amt: 30 }], 100), /more than the amount/);
+    invalid(() => resolvePayout([{ acc: 'A', amt: 50 }, { acc: 'A', amt: 50 }], 100), /more than once/);
+    invalid(() => resolvePayout([{ acc: 'A', amt: 10.005 }], 100), /decimal places for USD/);
+    invalid(() => resolvePayout([{ acc: 'A', amt: 100.5 }], 4000, 'KHR'), /decimal places for KHR/);
+    invalid(() => resolvePayout([{ acc: 'A', percent: 0 }], 100), /percent/);
+    invalid(() => resolvePayout([{ acc: '', amt: 1 }], 100), /acc is required/);
+    invalid(() => resolvePayout([], 100), /at least one account/);
+    expect(() => resolvePayout([{ acc: 'A', amt: 1 }], 0)).toThrow(
+      expect.objectContaining({ code: 'INVALID_PAYOUT' })
+    );
+  });
+});
+
+describe('buildTransactionPayload payout', () => {
+  const decode = (value: string) => JSON.parse(Buffer.from(value, 'base64').toString());
+
+  it('should encode typed splits and sign the encoded value', () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+
+    const payload = client.buildTransactionPayload({
+      tran_id: 'ORDER-123',
+      amount: 100,
+      payout: [{ acc: '123456', percent: 80 }, { acc: '789012', amt: 20 }]
+    });
+    const { hash, ...signed } = payload.fields;
+
+    expect(decode(payload.fields.payout)).toEqual([
+      { acc: '123456', amt: 80 },
+      { acc: '789012', amt: 20 }
+    ]);
+    expect(hash).toBe(client.create_hash(Object.values(signed)));
+  });
+
+  it('should pass pre-encoded strings through', () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+
+    const payload = client.buildTransactionPayload({ tran_id: 'ORDER-123', amount: 100, payout: 'W10=' });
+
+    expect(payload.fields.payout).toBe('W10=');
+  });
+
+  it('should validate splits against the amount and currency', () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+
+    expect(() =>
+      client.buildTransactionPayload({ tran_id: 'ORDER-123', amount: 5000, currency: 'KHR', payout: [{ acc: 'A', amt: 5001 }] })
+    ).toThrow(expect.objectContaining({ code: 'INVALID_PAYOUT' }));
+    expect(() =>
+      client.buildGenerateQRPayload({ tran_id: 'ORDER-123', amount: 10, payout: [{ acc: 'A', amt: 10.001 }] })
+    ).toThrow(PayWayConfigError);
+  });
+});
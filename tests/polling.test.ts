@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PayWayClient,
+  PayWayNetworkError,
+  PayWayResponseError,
+  isTerminalStatus,
+  type TransactionStatusUpdate
+} from '../src/index.js';
+
+function statusResponse(payment_status: string) {
+  return {
+    data: { payment_status, total_amount: 5 },
+    status: { code: '00', message: 'Success!' }
+  } as any;
+}
+
+function clientReturning(...results: Array<string | Error>) {
+  const client = new PayWayClient("http://example.com/", "merchant", "key");
+  const checkTransaction = vi.spyOn(client, 'checkTransaction');
+  for (const result of results) {
+    if (result instanceof Error) {
+      checkTransaction.mockRejectedValueOnce(result);
+    } else {
+      checkTransaction.mockResolvedValueOnce(statusResponse(result));
+    }
+  }
+  // Keep returning the last status
+  const last = results[results.length - 1];
+  if (typeof last === 'string') checkTransaction.mockResolvedValue(statusResponse(last));
+  return { client, checkTransaction };
+}
+
+describe('isTerminalStatus', () => {
+  it('should treat everything but pending as final', () => {
+    expect(isTerminalStatus('APPROVED')).toBe(true);
+    expect(isTerminalStatus('declined')).toBe(true);
+    expect(isTerminalStatus('PENDING')).toBe(false);
+  });
+});
+
+describe('waitForTransaction', () => {
+  it('should poll until the transaction is approved', async () => {
+    const { client, checkTransaction } = clientReturning('PENDING', 'PENDING', 'APPROVED');
+
+    const result = await client.waitForTransaction('ORDER-123', { intervalMs: 1 });
+
+    expect(result).toMatchObject({ tran_id: 'ORDER-123', status: 'APPROVED', final: true });
+    expect(result.response?.data?.total_amount).toBe(5);
+    expect(checkTransaction).toHaveBeenCalledTimes(3);
+  });
+
+  it('should finish on legacy numeric-status responses', async () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+    const legacy = (payment_status: number) =>
+      ({ status: 0, amount: 5, total: 5, payment_status, datetime: '2024-01-15 10:30:00' }) as any;
+    const checkTransaction = vi.spyOn(client, 'checkTransaction')
+      .mockResolvedValueOnce(legacy(2))
+      .mockResolvedValue(legacy(0));
+
+    const result = await client.waitForTransaction('ORDER-123', { intervalMs: 1 });
+
+    expect(result).toMatchObject({ status: 'APPROVED', final: true });
+    expect(checkTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep polling through transient errors', async () => {
+    const { client } = clientReturning(
+      new PayWayNetworkError('fetch failed', { code: 'NETWORK_ERROR' }),
+      'DECLINED'
+    );
+
+    await expect(client.waitForTransaction('ORDER-123', { intervalMs: 1 })).resolves.toMatchObject({
+      status: 'DECLINED'
+    });
+  });
+
+  it('should throw other errors', async () => {
+    const { client } = clientReturning(new PayWayResponseError('Not found', { code: '2' }));
+
+    await expect(client.waitForTransaction('ORDER-123', { intervalMs: 1 })).rejects.toBeInstanceOf(
+      PayWayResponseError
+    );
+  });
+
+  it('should report EXPIRED once the lifetime has passed', async () => {
+    const { client, checkTransaction } = clientReturning('PENDING');
+
+    const result = await client.waitForTransaction('ORDER-123', {
+      lifetime: 3,
+      startedAt: new Date(Date.now() - 3 * 60 * 1000)
+    });
+
+    expect(result).toMatchObject({ status: 'EXPIRED', final: true });
+    expect(checkTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not attach an earlier response when the last check before EXPIRED fails', async () => {
+    const { client, checkTransaction } = clientReturning(
+      'PENDING',
+      new PayWayNetworkError('fetch failed', { code: 'NETWORK_ERROR' })
+    );
+
+    const result = await client.waitForTransaction('ORDER-123', {
+      intervalMs: 5000,
+      lifetime: 1,
+      startedAt: new Date(Date.now() - 60 * 1000 + 200)
+    });
+
+    expect(result).toMatchObject({ status: 'EXPIRED', final: true });
+    expect(result.response).toBeUndefined();
+    expect(checkTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should time out while the transaction is still pending', async () => {
+    const { client } = clientReturning('PENDING');
+
+    await expect(
+      client.waitForTransaction('ORDER-123', { intervalMs: 1, timeoutMs: 10 })
+    ).rejects.toMatchObject({ name: 'PayWayNetworkError', code: 'TIMEOUT' });
+  });
+
+  it('should stop when the signal aborts', async () => {
+    const { client } = clientReturning('PENDING');
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      client.waitForTransaction('ORDER-123', { signal: controller.signal })
+    ).rejects.toMatchObject({ code: 'ABORTED' });
+  });
+});
+
+describe('watchTransaction', () => {
+  it('should yield only status changes and finish on a final status', async () => {
+    const { client } = clientReturning('PENDING', 'PENDING', 'PENDING', 'APPROVED');
+    const updates: TransactionStatusUpdate[] = [];
+
+    for await (const update of client.watchTransaction('ORDER-123', { intervalMs: 1 })) {
+      updates.push(update);
+    }
+
+    expect(updates.map(({ status, final }) => ({ status, final }))).toEqual([
+      { status: 'PENDING', final: false },
+      { status: 'APPROVED', final: true }
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect } from 'vitest';
+import { inflateSync } from 'node:zlib';
+import {
+  PayWayClient,
+  encodeQR,
+  renderQRToSVG,
+  renderQRToPNGDataUri,
+  renderQRToASCII,
+  type QRMatrix
+} from '../src/index.js';
+import { mockJsonFetch } from './helpers.js';
+
+// GF(256) tables for checking Reed-Solomon syndromes
+const EXP: number[] = [];
+const LOG: number[] = [];
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x;
+  LOG[x] = i;
+  x = (x << 1) ^ (x & 0x80 ? 0x11d : 0);
+}
+const gfMul = (a: number, b: number) => (a && b ? EXP[(LOG[a] + LOG[b]) % 255] : 0);
+
+/**
+ * Independent decoder for byte-mode symbols, used to round-trip the encoder.
+ * numBlocks / eccPerBlock come from the ISO/IEC 18004 tables for the version under test.
+ */
+function decode(qr: QRMatrix, numBlocks: number, eccPerBlock: number): string {
+  const { size, modules, version } = qr;
+
+  // Format information around the top-left finder
+  const formatCoords = [[8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8], [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8]];
+  const format = formatCoords.reduce((bits, [x, y], i) => bits | (modules[y][x] ? 1 << i : 0), 0) ^ 0x5412;
+  const mask = (format >> 10) & 7;
+
+  // Mark function modules
+  const reserved = Array.from({ length: size }, () => new Array(size).fill(false));
+  const reserve = (x0: number, y0: number, w: number, h: number) => {
+    for (let y = y0; y < y0 + h; y++) for (let x = x0; x < x0 + w; x++) reserved[y][x] = true;
+  };
+  reserve(0, 0, 9, 9);
+  reserve(size - 8, 0, 8, 9);
+  reserve(0, size - 8, 9, 8);
+  reserve(6, 0, 1, size);
+  reserve(0, 6, size, 1);
+  if (version >= 7) {
+    reserve(size - 11, 0, 3, 6);
+    reserve(0, size - 11, 6, 3);
+  }
+  if (version >= 2) {
+    const count = Math.floor(version / 7) + 2;
+    const centers = [6];
+    const last = size - 7;
+    const step = count > 2 ? Math.ceil((last - 6) / (count - 1) / 2) * 2 : last - 6;
+    for (let i = count - 1; i >= 1; i--) centers.splice(1, 0, last - (count - 1 - i) * step);
+    for (const cy of centers) {
+      for (const cx of centers) {
+        const nearFinder = (cx === 6 && cy === 6) || (cx === 6 && cy === last) || (cx === last && cy === 6);
+        if (!nearFinder) reserve(cx - 2, cy - 2, 5, 5);
+      }
+    }
+  }
+
+  // Read codewords in zigzag order, removing the mask
+  const masks = [
+    (x: number, y: number) => (x + y) % 2 === 0,
+    (_x: number, y: number) => y % 2 === 0,
+    (x: number) => x % 3 === 0,
+    (x: number, y: number) => (x + y) % 3 === 0,
+    (x: number, y: number) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x: number, y: number) => ((x * y) % 2) + ((x * y) % 3) === 0,
+    (x: number, y: number) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+    (x: number, y: number) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+  ];
+  const bits: number[] = [];
+  let upward = true;
+  for (let right = size - 1; right > 0; right -= 2) {
+    if (right === 6) right--;
+    for (let i = 0; i < size; i++) {
+      const y = upward ? size - 1 - i : i;
+      for (const x of [right, right - 1]) {
+        if (!reserved[y][x]) bits.push(Number(modules[y][x] !== masks[mask](x, y)));
+      }
+    }
+    upward = !upward;
+  }
+  const codewords: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  // De-interleave blocks (long blocks come last and carry one extra data codeword)
+  const numLong = codewords.length % numBlocks;
+  const numShort = numBlocks - numLong;
+  const shortData = Math.floor(codewords.length / numBlocks) - eccPerBlock;
+  const blocks = Array.from({ length: numBlocks }, (): number[] => []);
+  let k = 0;
+  for (let i = 0; i < shortData + 1; i++) {
+    for (let j = 0; j < numBlocks; j++) {
+      if (i < shortData || j >= numShort) blocks[j].push(codewords[k++]);
+    }
+  }
+  for (let i = 0; i < eccPerBlock; i++) {
+    for (let j = 0; j < numBlocks; j++) blocks[j].push(codewords[k++]);
+  }
+
+  // Every block must be a valid Reed-Solomon codeword
+  for (const block of blocks) {
+    for (let root = 0; root < eccPerBlock; root++) {
+      const syndrome = block.reduce((acc, byte) => gfMul(acc, EXP[root]) ^ byte, 0);
+      expect(syndrome).toBe(0);
+    }
+  }
+
+  // Parse the byte-mode segment
+  const data = blocks.flatMap((block) => block.slice(0, block.length - eccPerBlock));
+  const stream = data.flatMap((byte) => Array.from({ length: 8 }, (_v, i) => (byte >> (7 - i)) & 1));
+  let pos = 0;
+  const read = (n: number) => {
+    let value = 0;
+    for (let i = 0; i < n; i++) value = (value << 1) | stream[pos++];
+    return value;
+  };
+  expect(read(4)).toBe(0b0100);
+  const length = read(version <= 9 ? 8 : 16);
+  const bytes = Uint8Array.from({ length }, () => read(8));
+  return new TextDecoder().decode(bytes);
+}
+
+const khqr =
+  '00020101021230510016abaakhppxxx@abaa01151240919120006380208ABA Bank' +
+  '520459995303840540510.005802KH5916PayWay Test Shop6010Phnom Penh' +
+  '62330108ORDER-1230717PayWay KHQR Order99170013170000000000063049A1B';
+
+describe('encodeQR', () => {
+  it('should round-trip a short string in version 1', () => {
+    const qr = encodeQR('ORDER-123');
+
+    expect(qr.version).toBe(1);
+    expect(qr.size).toBe(21);
+    expect(decode(qr, 1, 10)).toBe('ORDER-123');
+  });
+
+  it('should round-trip a KHQR string with version information', () => {
+    const text = khqr.padEnd(200, '0');
+    const qr = encodeQR(text);
+
+    // Version 10-M: 4 blocks of 43 + 1 block of 44 data codewords, 26 ECC each
+    expect(qr.version).toBe(10);
+    expect(decode(qr, 5, 26)).toBe(text);
+  });
+
+  it('should pick the smallest version for each error correction level', () => {
+    // Byte capacities from ISO/IEC 18004 table 7
+    expect(encodeQR('x'.repeat(14)).version).toBe(1);
+    expect(encodeQR('x'.repeat(15)).version).toBe(2);
+    expect(encodeQR('x'.repeat(17), { errorCorrection: 'L' }).version).toBe(1);
+    expect(encodeQR('x'.repeat(7), { errorCorrection: 'H' }).version).toBe(1);
+    expect(encodeQR('x'.repeat(2953), { errorCorrection: 'L' }).version).toBe(40);
+    expect(() => encodeQR('x'.repeat(2954), { errorCorrection: 'L' })).toThrow(RangeError);
+  });
+
+  it('should draw finder patterns in three corners', () => {
+    const { modules, size } = encodeQR(khqr);
+    const finder = (x0: number, y0: number) =>
+      modules.slice(y0, y0 + 7).map((row) => row.slice(x0, x0 + 7).map(Number).join('')).join('/');
+
+    const expected = '1111111/1000001/1011101/1011101/1011101/1000001/1111111';
+    expect(finder(0, 0)).toBe(expected);
+    expect(finder(size - 7, 0)).toBe(expected);
+    expect(finder(0, size - 7)).toBe(expected);
+  });
+});
+
+describe('QR renderers', () => {
+  it('should render SVG with one path for dark modules', () => {
+    const svg = renderQRToSVG('ORDER-123', { size: 290, foreground: '#0b3d91' });
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="290" height="290" viewBox="0 0 29 29"/);
+    expect(svg).toContain('fill="#0b3d91"');
+    expect(svg).toContain('M4,4h1v1h-1z');
+  });
+
+  it('should reject SVG colors that are not CSS colors', () => {
+    expect(renderQRToSVG('ORDER-123', { foreground: 'navy', background: 'rgb(255, 255, 240)' })).toContain(
+      'fill="rgb(255, 255, 240)"'
+    );
+    expect(() => renderQRToSVG('ORDER-123', { foreground: '"/><script>alert(1)</script>' })).toThrow(
+      'Invalid foreground color'
+    );
+    expect(() => renderQRToSVG('ORDER-123', { background: 'red" onload="x' })).toThrow('Invalid background color');
+  });
+
+  it('should render a valid PNG data URI', () => {
+    const uri = renderQRToPNGDataUri('ORDER-123', { scale: 2, margin: 1 });
+    const png = Buffer.from(uri.replace('data:image/png;base64,', ''), 'base64');
+
+    expect(uri.startsWith('data:image/png;base64,')).toBe(true);
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(png.readUInt32BE(16)).toBe(46); // (21 + 2) * 2
+
+    const idatLength = png.readUInt32BE(33);
+    const raw = inflateSync(png.subarray(41, 41 + idatLength));
+    expect(raw.length).toBe(47 * 46);
+    // Quiet zone is white, top-left finder corner is black
+    expect(raw[1]).toBe(0xff);
+    expect(raw[47 * 2 + 1 + 2]).toBe(0x00);
+  });
+
+  it('should render ASCII with half blocks', () => {
+    const ascii = renderQRToASCII('ORDER-123', { margin: 0 });
+    const lines = ascii.split('\n');
+
+    expect(lines).toHaveLength(11);
+    expect(lines[0].startsWith('█▀▀▀▀▀█')).toBe(true);
+    expect(renderQRToASCII('ORDER-123', { margin: 0, invert: true }).split('\n')[0].startsWith(' ▄▄▄▄▄ ')).toBe(true);
+  });
+});
+
+describe('buildGenerateQRPayload', () => {
+  it('should sign fields with KHQR defaults', () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+    const payload = client.buildGenerateQRPayload({
+      tran_id: 'ORDER-123',
+      amount: 5,
+      lifetime: 15,
+      callback_url: 'https://mysite.com/callback'
+    });
+
+    expect(payload.url).toBe('http://example.com/api/payment-gateway/v1/payments/generate-qr');
+    expect(payload.fields).toMatchObject({
+      tran_id: 'ORDER-123',
+      amount: '5',
+      purchase_type: 'purchase',
+      payment_option: 'abapay_khqr',
+      callback_url: Buffer.from('https://mysite.com/callback').toString('base64'),
+      currency: 'USD',
+      lifetime: '15'
+    });
+
+    const { hash, ...signed } = payload.fields;
+    expect(hash).toBe(client.create_hash(Object.values(signed)));
+  });
+
+  it('should return the qr_string from generateQR', async () => {
+    const fetchMock = mockJsonFetch({ qr_string: khqr, status: { code: '0', message: 'Success.' } });
+    const client = new PayWayClient("http://example.com/", "merchant", "key", undefined, { fetch: fetchMock });
+
+    const result = await client.generateQR({ tran_id: 'ORDER-123', amount: 10 });
+
+    expect(result.qr_string).toBe(khqr);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PayWayClient,
+  reconcileTransactions,
+  reconciliationToCSV,
+  reconciliationToJSON,
+  type TransactionRecord
+} from '../src/index.js';
+
+function transaction(transaction_id: string, amount: number, payment_status = 'APPROVED', currency = 'USD') {
+  return {
+    transaction_id,
+    transaction_date: '2024-01-15 10:30:00',
+    payment_status,
+    original_amount: amount,
+    original_currency: currency,
+    total_amount: amount
+  } as TransactionRecord;
+}
+
+function clientWithPages(...pages: TransactionRecord[][]) {
+  const client = new PayWayClient("http://example.com/", "merchant", "key");
+  const listTransactions = vi.spyOn(client, 'listTransactions');
+  for (const data of pages) {
+    listTransactions.mockResolvedValueOnce({ data, status: { code: '00', message: 'Success!' } } as any);
+  }
+  return { client, listTransactions };
+}
+
+const date_range = { from: '20240115000000', to: '20240115235959' };
+
+describe('reconcileTransactions', () => {
+  it('should sort every tran_id into a category', async () => {
+    const { client } = clientWithPages([
+      transaction('ORDER-1', 10),
+      transaction('ORDER-2', 12.5),
+      transaction('ORDER-3', 20, 'PENDING'),
+      transaction('ORDER-4', 15, 'APPROVED', 'KHR'),
+      transaction('ORDER-9', 99)
+    ]);
+
+    const report = await reconcileTransactions(client, {
+      date_range,
+      orders: [
+        { tran_id: 'ORDER-1', amount: '10.00' },
+        { tran_id: 'ORDER-2', amount: 15 },
+        { tran_id: 'ORDER-3', amount: 20 },
+        { tran_id: 'ORDER-4', amount: 15 },
+        { tran_id: 'ORDER-5', amount: 5 }
+      ]
+    });
+
+    const ids = (records: { tran_id: string }[]) => records.map((record) => record.tran_id);
+    expect(ids(report.matched)).toEqual(['ORDER-1']);
+    expect(ids(report.amount_mismatch)).toEqual(['ORDER-2', 'ORDER-4']);
+    expect(ids(report.status_mismatch)).toEqual(['ORDER-3']);
+    expect(ids(report.missing_at_payway)).toEqual(['ORDER-5']);
+    expect(ids(report.unknown_at_merchant)).toEqual(['ORDER-9']);
+    expect(ids(report.records)).toEqual(['ORDER-1', 'ORDER-2', 'ORDER-3', 'ORDER-4', 'ORDER-5', 'ORDER-9']);
+    expect(report).toMatchObject({ from_date: '20240115000000', to_date: '20240115235959' });
+  });
+
+  it('should report repeated tran_ids as duplicates instead of dropping them', async () => {
+    const { client } = clientWithPages([
+      transaction('ORDER-1', 10),
+      transaction('ORDER-2', 5),
+      transaction('ORDER-2', 5)
+    ]);
+
+    const report = await reconcileTransactions(client, {
+      date_range,
+      orders: [
+        { tran_id: 'ORDER-1', amount: 10 },
+        { tran_id: 'ORDER-1', amount: 10 },
+        { tran_id: 'ORDER-2', amount: 5 }
+      ]
+    });
+
+    expect(report.records.map(({ tran_id, category }) => `${tran_id}:${category}`)).toEqual([
+      'ORDER-1:matched',
+      'ORDER-1:duplicate',
+      'ORDER-2:matched',
+      'ORDER-2:duplicate'
+    ]);
+    expect(report.duplicate[0]).toMatchObject({ order: { tran_id: 'ORDER-1' } });
+    expect(report.duplicate[0].transaction).toBeUndefined();
+    expect(report.duplicate[1]).toMatchObject({ transaction: { transaction_id: 'ORDER-2' } });
+    expect(report.duplicate[1].order).toBeUndefined();
+    expect(JSON.parse(reconciliationToJSON(report)).summary.duplicate).toBe(2);
+  });
+
+  it('should honour expected_status and page through the whole range', async () => {
+    const { client, listTransactions } = clientWithPages(
+      [transaction('ORDER-1', 10), transaction('ORDER-2', 10, 'REFUNDED')],
+      [transaction('ORDER-3', 10)]
+    );
+
+    const report = await reconcileTransactions(client, {
+      date_range,
+      page_size: 2,
+      orders: [
+        { tran_id: 'ORDER-1', amount: 10 },
+        { tran_id: 'ORDER-2', amount: 10, expected_status: 'REFUNDED' },
+        { tran_id: 'ORDER-3', amount: 10 }
+      ]
+    });
+
+    expect(report.matched).toHaveLength(3);
+    expect(listTransactions).toHaveBeenCalledTimes(2);
+    expect(listTransactions.mock.calls[1][0]).toEqual({ date_range, page: 2, page_size: 2 });
+  });
+});
+
+describe('report export', () => {
+  it('should write one CSV row per record', async () => {
+    const { client } = clientWithPages([transaction('ORDER-1', 10), transaction('ORDER,9', 5)]);
+    const report = await reconcileTransactions(client, {
+      date_range,
+      orders: [{ tran_id: 'ORDER-1', amount: 10 }, { tran_id: 'ORDER-2', amount: 7, currency: 'KHR' }]
+    });
+
+    expect(reconciliationToCSV(report).split('\r\n')).toEqual([
+      'tran_id,category,order_amount,order_currency,expected_status,payway_amount,payway_currency,payway_status,transaction_date',
+      'ORDER-1,matched,10,USD,APPROVED,10,USD,APPROVED,2024-01-15 10:30:00',
+      'ORDER-2,missing_at_payway,7,KHR,APPROVED,,,,',
+      '"ORDER,9",unknown_at_merchant,,,,5,USD,APPROVED,2024-01-15 10:30:00'
+    ]);
+  });
+
+  it('should neutralize cells that spreadsheets would run as formulas', async () => {
+    const { client } = clientWithPages([
+      transaction('=HYPERLINK("http://evil")', 5),
+      transaction('@SUM(A1)', 5),
+      transaction('\tORDER', 5)
+    ]);
+    const report = await reconcileTransactions(client, {
+      date_range,
+      orders: [{ tran_id: '+ORDER', amount: 10 }, { tran_id: '-ORDER', amount: -1 }]
+    });
+
+    expect(reconciliationToCSV(report).split('\r\n').slice(1).map((row) => row.split(',')[0])).toEqual([
+      `"'+ORDER"`,
+      `"'-ORDER"`,
+      `"'=HYPERLINK(""http://evil"")"`,
+      `"'@SUM(A1)"`,
+      `"'\tORDER"`
+    ]);
+    expect(reconciliationToCSV(report)).toContain('"\'-ORDER",missing_at_payway,-1,USD');
+  });
+
+  it('should write JSON with a summary and each record once', async () => {
+    const { client } = clientWithPages([transaction('ORDER-1', 10)]);
+    const report = await reconcileTransactions(client, {
+      date_range,
+      orders: [{ tran_id: 'ORDER-1', amount: 10 }, { tran_id: 'ORDER-2', amount: 7 }]
+    });
+
+    const json = JSON.parse(reconciliationToJSON(report));
+
+    expect(json.summary).toEqual({
+      matched: 1,
+      missing_at_payway: 1,
+      unknown_at_merchant: 0,
+      amount_mismatch: 0,
+      status_mismatch: 0,
+      duplicate: 0
+    });
+    expect(json.records).toHaveLength(2);
+    expect(json).not.toHaveProperty('matched');
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PayWayClient,
+  PayWayAPIError,
+  PayWayConfigError,
+  PayWayNetworkError,
+  PayWayResponseError,
+  computeBackoff,
+  isRetryableError,
+  isSafeOperation
+} from '../src/index.js';
+
+const okBody = {
+  data: { payment_status: 'APPROVED', total_amount: 10 },
+  status: { code: '00', message: 'Success!' }
+};
+
+function jsonResponse(body: any, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: status === 200 ? 'OK' : 'Service Unavailable',
+    headers: { 'content-type': 'application/json' }
+  });
+}
+
+// Fails with the given responses/errors first, then succeeds
+function flakyFetch(...failures: Array<number | Error>) {
+  let calls = 0;
+  return vi.fn(async (_url: string, _init: RequestInit) => {
+    const failure = failures[calls++];
+    if (failure instanceof Error) throw failure;
+    if (typeof failure === 'number') return jsonResponse({ error: 'down' }, failure);
+    return jsonResponse(okBody);
+  });
+}
+
+const fastRetry = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 2 };
+
+describe('isSafeOperation', () => {
+  it('should only treat read-only endpoints as safe', () => {
+    expect(isSafeOperation('https://x/api/payment-gateway/v1/payments/check-transaction')).toBe(true);
+    expect(isSafeOperation('https://x/api/payment-gateway/v1/payments/transaction-list')).toBe(true);
+    expect(isSafeOperation('https://x/api/payment-gateway/v1/payments/purchase')).toBe(false);
+    expect(isSafeOperation('https://x/api/merchant-portal/merchant-access/online-transaction/pre-auth-completion')).toBe(false);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('should retry network errors, timeouts, 5xx and 429', () => {
+    expect(isRetryableError(new PayWayNetworkError('x', { code: 'NETWORK_ERROR' }))).toBe(true);
+    expect(isRetryableError(new PayWayNetworkError('x', { code: 'TIMEOUT' }))).toBe(true);
+    expect(isRetryableError(new PayWayAPIError('x', { code: 'HTTP_503', status: 503, statusText: '' }))).toBe(true);
+    expect(isRetryableError(new PayWayAPIError('x', { code: 'HTTP_429', status: 429, statusText: '' }))).toBe(true);
+  });
+
+  it('should not retry aborts, 4xx or PayWay status errors', () => {
+    expect(isRetryableError(new PayWayNetworkError('x', { code: 'ABORTED' }))).toBe(false);
+    expect(isRetryableError(new PayWayAPIError('x', { code: 'HTTP_403', status: 403, statusText: '' }))).toBe(false);
+    expect(isRetryableError(new PayWayResponseError('x', { code: '1' }))).toBe(false);
+    expect(isRetryableError(new Error('x'))).toBe(false);
+  });
+});
+
+describe('computeBackoff', () => {
+  it('should grow exponentially up to maxDelayMs', () => {
+    const max = () => 0.999999;
+    const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+    expect(computeBackoff(1, options, max)).toBe(100);
+    expect(computeBackoff(2, options, max)).toBe(200);
+    expect(computeBackoff(3, options, max)).toBe(400);
+    expect(computeBackoff(10, options, max)).toBe(1000);
+  });
+
+  it('should apply full jitter', () => {
+    expect(computeBackoff(3, { baseDelayMs: 100 }, () => 0)).toBe(0);
+    expect(computeBackoff(3, { baseDelayMs: 100 }, () => 0.5)).toBe(200);
+  });
+});
+
+describe('execute retries', () => {
+  it('should not retry by default', async () => {
+    const fetchMock = flakyFetch(503);
+    const client = new PayWayClient('http://example.com/', '1', '1', undefined, { fetch: fetchMock });
+
+    await expect(client.checkTransaction('ORDER-1')).rejects.toBeInstanceOf(PayWayAPIError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry safe operations with the client policy', async () => {
+    const fetchMock = flakyFetch(503, new TypeError('fetch failed'));
+    const onRetry = vi.fn();
+    const client = new PayWayClient('http://example.com/', '1', '1', undefined, {
+      fetch: fetchMock,
+      retry: { ...fastRetry, onRetry }
+    });
+
+    await expect(client.checkTransaction('ORDER-1')).resolves.toEqual(okBody);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls[0][1]).toBe(1);
+  });
+
+  it('should stop after maxAttempts', async () => {
+    const fetchMock = flakyFetch(500, 500, 500, 500);
+    const client = new PayWayClient('http://example.com/', '1', '1', undefined, {
+      fetch: fetchMock,
+      retry: fastRetry
+    });
+
+    await expect(client.listTransactions()).rejects.toMatchObject({ status: 500 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry non-transient errors', async () => {
+    const fetchMock = flakyFetch(400);
+    const client = new PayWayClient('http://example.com/', '1', '1', undefined, {
+      fetch: fetchMock,
+      retry: fastRetry
+    });
+
+    await expect(client.checkTransaction('ORDER-1')).rejects.toMatchObject({ status: 400 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should never apply the client policy to purchases', async () => {
+    const fetchMock = flakyFetch(503);
+    const client = new PayWayClient('http://example.com/', '1', '1', undefined, {
+      fetch: fetchMock,
+      retry: fastRetry
+    });
+
+    await expect(
+      client.createTransaction({ tran_id: 'ORDER-1', amount: 1, payment_option: 'abapay_khqr' })
+    ).rejects.toBeInstanceOf(PayWayAPIError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry unsafe operations when the call opts in', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({ status: { code: '0', message: 'Success!', tran_id: 'ORDER-1' } }));
+    const client = new PayWayClient('http://example.com/', '1', '1', undefined, { fetch: fetchMock });
+
+    await client.createTransaction(
+      { tran_id: 'ORDER-1', amount: 1, payment_option: 'abapay_khqr' },
+      { retry: fastRetry }
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should re-sign the payload on every attempt', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(new Date('2024-01-15T10:00:00+07:00'));
+      const sentTimes: string[] = [];
+      const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+        sentTimes.push((init.body as FormData).get('req_time') as string);
+        vi.setSystemTime(new Date(`2024-01-15T10:00:0${sentTimes.length}+07:00`));
+        return sentTimes.length < 3 ? jsonResponse({}, 503) : jsonResponse(okBody);
+      });
+      const client = new PayWayClient('http://example.com/', '1', '1', undefined, {
+        fetch: fetchMock,
+        retry: fastRetry
+      });
+
+      await client.checkTransaction('ORDER-1');
+
+      expect(sentTimes).toEqual(['20240115100000', '20240115100001', '20240115100002']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should reject per-call retries for an already built payload', async () => {
+    const client = new PayWayClient('http://example.com/', '1', '1', undefined, { fetch: flakyFetch() });
+
+    await expect(
+      client.execute(client.buildCheckTransactionPayload('ORDER-1'), { retry: fastRetry })
+    ).rejects.toBeInstanceOf(PayWayConfigError);
+  });
+
+  it('should stop retrying when the signal aborts during backoff', async () => {
+    const fetchMock = flakyFetch(503, 503, 503);
+    const controller = new AbortController();
+    const client = new PayWayClient('http://example.com/', '1', '1', undefined, {
+      fetch: fetchMock,
+      retry: { maxAttempts: 3, baseDelayMs: 10_000, onRetry: () => controller.abort() }
+    });
+
+    await expect(
+      client.checkTransaction('ORDER-1', { signal: controller.signal })
+    ).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
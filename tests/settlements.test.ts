@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PayWayClient,
+  PayWayError,
+  parseSettlementExport,
+  verifyPayouts,
+  dayRange,
+  money
+} from '../src/index.js';
+import { mockJsonFetch } from './helpers.js';
+
+const date_range = { from: '20240116000000', to: '20240116235959' };
+
+describe('buildSettlementReportPayload', () => {
+  it('should sign the period and paging in order', () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+
+    const payload = client.buildSettlementReportPayload({ date_range, page: 2, page_size: 50 });
+    const { hash, ...signed } = payload.fields;
+
+    expect(payload.url).toBe('http://example.com/api/payment-gateway/v1/settlement/list');
+    expect(Object.keys(signed)).toEqual(['req_time', 'merchant_id', 'from_date', 'to_date', 'page', 'pagination']);
+    expect(signed).toMatchObject({ from_date: '20240116000000', to_date: '20240116235959', pagination: '50' });
+    expect(hash).toBe(client.create_hash(Object.values(signed)));
+  });
+});
+
+describe('buildPayoutStatementPayload', () => {
+  it('should sign account and tran_id filters', () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+
+    const payload = client.buildPayoutStatementPayload({
+      date_range: dayRange(new Date('2024-01-16T12:00:00+07:00')),
+      acc: '000133879',
+      tran_id: 'ORDER-123'
+    });
+    const { hash, ...signed } = payload.fields;
+
+    expect(payload.url).toBe('http://example.com/api/payment-gateway/v1/payout/list');
+    expect(Object.keys(signed)).toEqual(['req_time', 'merchant_id', 'from_date', 'to_date', 'acc', 'tran_id']);
+    expect(signed.from_date).toBe('20240116000000');
+    expect(hash).toBe(client.create_hash(Object.values(signed)));
+  });
+});
+
+describe('getPayoutStatement', () => {
+  it('should return typed payout records', async () => {
+    const data = [{ tran_id: 'ORDER-123', acc: '000133879', amt: 80, currency: 'USD', payout_date: '2024-01-16', status: 'SUCCESS' }];
+    const fetchMock = mockJsonFetch({ data, status: { code: '00', message: 'Success!' } });
+    const client = new PayWayClient("http://example.com/", "merchant", "key", undefined, { fetch: fetchMock });
+
+    const result = await client.getPayoutStatement({ date_range });
+
+    expect(result.data).toEqual(data);
+  });
+
+  it('should reject a response without data', async () => {
+    const fetchMock = mockJsonFetch({ status: { code: '00', message: 'Success!' } });
+    const client = new PayWayClient("http://example.com/", "merchant", "key", undefined, { fetch: fetchMock });
+
+    await expect(client.getSettlementReport({ date_range })).rejects.toMatchObject({ name: 'PayWayResponseError' });
+  });
+});
+
+describe('parseSettlementExport', () => {
+  it('should map known columns from a CSV export', () => {
+    const csv = [
+      'Transaction ID,Account No.,Payout Amount,Currency,Payout Date,Status',
+      'ORDER-123,="000133879","1,234.50",USD,2024-01-16,SUCCESS',
+      '"ORDER-""124""",000133880,20.00,USD,2024-01-16,FAILED',
+      ''
+    ].join('\r\n');
+
+    const rows = parseSettlementExport(csv);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      tran_id: 'ORDER-123',
+      acc: '000133879',
+      amt: 1234.5,
+      currency: 'USD',
+      date: '2024-01-16',
+      status: 'SUCCESS'
+    });
+    expect(rows[0].raw['Account No.']).toBe('000133879');
+    expect(rows[1].tran_id).toBe('ORDER-"124"');
+  });
+
+  it('should read Excel text exports with a BOM, sep hint or tabs', () => {
+    const semicolons = '\uFEFFsep=;\nacc;amt\n000133879;80\n';
+    const tabs = Buffer.from('beneficiary_account\tnet_amount\tamount\n000133879\t79.20\t80.00\n');
+
+    expect(parseSettlementExport(semicolons)[0]).toMatchObject({ acc: '000133879', amt: 80 });
+    expect(parseSettlementExport(tabs)[0]).toMatchObject({ acc: '000133879', amt: 79.2 });
+  });
+
+  it('should reject an unterminated quote', () => {
+    expect(() => parseSettlementExport('acc,amt\n"000133879,80')).toThrow(PayWayError);
+    expect(() => parseSettlementExport('')).toThrow(
+      expect.objectContaining({ code: 'INVALID_SETTLEMENT_EXPORT' })
+    );
+  });
+});
+
+describe('verifyPayouts', () => {
+  const payout = [
+    { acc: '000133879', amt: 80 },
+    { acc: '000133880', amt: 15.5 },
+    { acc: '000133881', amt: 4.5 }
+  ];
+
+  it('should confirm every account received its amount', () => {
+    const result = verifyPayouts(payout, [
+      { acc: '000 133 879', amt: 50 },
+      { acc: '000133879', amt: 30 },
+      { acc: '000133880', amt: 15.5 },
+      { acc: '000133881', amt: 4.5 }
+    ]);
+
+    expect(result.ok).toBe(true);
+    expect(result.items.map((item) => item.status)).toEqual(['received', 'received', 'received']);
+  });
+
+  it('should report missing, short and over payments', () => {
+    const result = verifyPayouts(
+      payout,
+      [
+        { tran_id: 'ORDER-123', acc: '000133879', amt: 80, status: 'FAILED' },
+        { tran_id: 'ORDER-123', acc: '000133880', amt: 10 },
+        { tran_id: 'ORDER-123', acc: '000133881', amt: 5 },
+        { tran_id: 'ORDER-999', acc: '000133880', amt: 5.5 }
+      ],
+      { tran_id: 'ORDER-123' }
+    );
+
+    expect(result.ok).toBe(false);
+    expect(result.items).toEqual([
+      { acc: '000133879', expected: 80, received: 0, status: 'missing' },
+      { acc: '000133880', expected: 15.5, received: 10, status: 'short' },
+      { acc: '000133881', expected: 4.5, received: 5, status: 'over' }
+    ]);
+  });
+
+  it('should accept decimal strings and Money as expected amounts', () => {
+    const result = verifyPayouts(
+      [{ acc: '000133879', amt: money(80) }, { acc: '000133880', amt: '15.50' }, { acc: '000133881', amt: money(4100, 'KHR') }],
+      [
+        { acc: '000133879', amt: 80 },
+        { acc: '000133880', amt: 15.5 },
+        { acc: '000133881', amt: 4100 }
+      ]
+    );
+
+    expect(result.ok).toBe(true);
+    expect(() => verifyPayouts([{ acc: 'A', amt: '1.234' }], [])).toThrow(
+      expect.objectContaining({ code: 'INVALID_AMOUNT' })
+    );
+  });
+
+  it('should leave out rows without a tran_id when filtering by tran_id', () => {
+    const rows = [
+      { tran_id: 'ORDER-123', acc: '000133879', amt: 80 },
+      { acc: '000133880', amt: 15.5 },
+      { tran_id: 'ORDER-123', acc: '000133881', amt: 4.5 }
+    ];
+
+    expect(verifyPayouts(payout, rows, { tran_id: 'ORDER-123' }).items.map((item) => item.status)).toEqual([
+      'received',
+      'missing',
+      'received'
+    ]);
+    expect(verifyPayouts(payout, rows).ok).toBe(true);
+  });
+});
@@ -0,0 +1,313 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PayWayClient,
+  PayWayConfigError,
+  PayWayNetworkError,
+  PayWayResponseError,
+  SubscriptionManager,
+  MemorySubscriptionStore,
+  nextBillingDate,
+  generateBillingTranId,
+  money,
+  MAX_TRAN_ID_LENGTH,
+  type SubscriptionEvent
+} from '../src/index.js';
+
+const approved = {
+  transaction_status: 'APPROVED',
+  status: { code: '00', message: 'Success!' }
+};
+
+function checkResponse(payment_status: string) {
+  return {
+    data: { payment_status, total_amount: 9.99 },
+    status: { code: '00', message: 'Success!' }
+  } as any;
+}
+
+function setup(purchase: (...args: any[]) => any, dunning?: number[]) {
+  const client = new PayWayClient("http://example.com/", "merchant", "key");
+  const purchaseWithToken = vi.spyOn(client, 'purchaseWithToken').mockImplementation(purchase as any);
+  const checkTransaction = vi.spyOn(client, 'checkTransaction').mockRejectedValue(
+    new PayWayNetworkError('fetch failed', { code: 'NETWORK_ERROR' })
+  );
+  const events: SubscriptionEvent[] = [];
+  const manager = new SubscriptionManager(client, {
+    dunning,
+    onEvent: (event) => {
+      events.push(event);
+    }
+  });
+  manager.definePlan({ id: 'pro', interval: 'month', amount: 9.99 });
+  return { manager, purchaseWithToken, checkTransaction, events };
+}
+
+describe('nextBillingDate', () => {
+  it('should add intervals and clamp to the end of the month', () => {
+    const jan31 = new Date(2024, 0, 31);
+
+    expect(nextBillingDate(jan31, { interval: 'month' })).toEqual(new Date(2024, 1, 29));
+    expect(nextBillingDate(jan31, { interval: 'week', interval_count: 2 })).toEqual(new Date(2024, 1, 14));
+    expect(nextBillingDate(jan31, { interval: 'year' })).toEqual(new Date(2025, 0, 31));
+  });
+});
+
+describe('generateBillingTranId', () => {
+  it('should be deterministic and within 20 characters', () => {
+    const id = generateBillingTranId('subscription-for-a-very-long-customer-id', 12, 2);
+
+    expect(id).toBe(generateBillingTranId('subscription-for-a-very-long-customer-id', 12, 2));
+    expect(id).toMatch(/^SUB-[0-9A-Z]{9}-C-R2$/);
+    expect(id.length).toBeLessThanOrEqual(20);
+    expect(generateBillingTranId('a', 1)).not.toBe(generateBillingTranId('a', 2));
+    expect(generateBillingTranId('SUB-42', 3)).toBe('SUB-TDLMB5PN1-3');
+  });
+
+  it('should throw instead of exceeding 20 characters', () => {
+    expect(generateBillingTranId('S1', 1000, 3)).toMatch(/-RS-R3$/);
+    expect(generateBillingTranId('S1', 36 ** 3 - 1, 3)).toHaveLength(MAX_TRAN_ID_LENGTH);
+    expect(() => generateBillingTranId('S1', 36 ** 3, 3)).toThrow(
+      expect.objectContaining({ code: 'TRAN_ID_TOO_LONG' })
+    );
+    expect(() => generateBillingTranId('S1', 1, 0, 'SUBSCRIPTION')).toThrow(PayWayConfigError);
+  });
+});
+
+describe('SubscriptionManager', () => {
+  const start = new Date(2024, 0, 1);
+
+  it('should reject invalid and unknown plans', async () => {
+    const { manager } = setup(async () => approved);
+
+    expect(() => manager.definePlan({ id: 'bad', interval: 'fortnight' as any, amount: 0 })).toThrow(
+      PayWayConfigError
+    );
+    await expect(
+      manager.subscribe({ id: 'S1', plan_id: 'missing', ctid: 'C', pwt: 'P' })
+    ).rejects.toMatchObject({ code: 'UNKNOWN_PLAN' });
+  });
+
+  it('should accept Money and decimal string plan amounts', async () => {
+    const { manager, purchaseWithToken } = setup(async () => approved);
+    manager.definePlan({ id: 'riel', interval: 'month', amount: money(40000, 'KHR') });
+    manager.definePlan({ id: 'text', interval: 'month', amount: '9.99' });
+
+    expect(() => manager.definePlan({ id: 'mixed', interval: 'month', amount: money(999), currency: 'KHR' })).toThrow(
+      expect.objectContaining({ code: 'INVALID_PLAN' })
+    );
+    expect(() => manager.definePlan({ id: 'precise', interval: 'month', amount: '9.999' })).toThrow(
+      /decimal places/
+    );
+
+    await manager.subscribe({ id: 'S1', plan_id: 'riel', ctid: 'C', pwt: 'P', start_date: start });
+    await manager.runDue(start);
+    expect(purchaseWithToken.mock.calls[0][0].amount).toEqual(money(40000, 'KHR'));
+  });
+
+  it('should reject a tranIdPrefix that does not fit', () => {
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+
+    expect(() => new SubscriptionManager(client, { tranIdPrefix: 'BILLING' })).toThrow(
+      expect.objectContaining({ code: 'INVALID_TRAN_ID_PREFIX' })
+    );
+    expect(() => new SubscriptionManager(client, { tranIdPrefix: 'S B' })).toThrow(
+      expect.objectContaining({ code: 'INVALID_TRAN_ID_PREFIX' })
+    );
+    expect(() => new SubscriptionManager(client, { tranIdPrefix: 'SUBS' })).toThrow(PayWayConfigError);
+    expect(() => new SubscriptionManager(client, { tranIdPrefix: 'SUBS', dunning: [] })).not.toThrow();
+    expect(() => new SubscriptionManager(client, { dunning: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] })).not.toThrow();
+    expect(() => new SubscriptionManager(client, { tranIdPrefix: 'PRO' })).not.toThrow();
+  });
+
+  it('should skip subscriptions with an unknown plan and charge the rest', async () => {
+    const store = new MemorySubscriptionStore();
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+    const purchaseWithToken = vi.spyOn(client, 'purchaseWithToken').mockResolvedValue(approved as any);
+    const events: SubscriptionEvent[] = [];
+    const manager = new SubscriptionManager(client, { store, onEvent: (event) => { events.push(event); } });
+    manager.definePlan({ id: 'pro', interval: 'month', amount: 9.99 });
+
+    await manager.subscribe({ id: 'S1', plan_id: 'pro', ctid: 'C', pwt: 'P', start_date: start });
+    await manager.subscribe({ id: 'S2', plan_id: 'pro', ctid: 'C', pwt: 'P', start_date: start });
+    store.save({ ...store.get('S1')!, plan_id: 'retired' });
+
+    const charged = await manager.runDue(start);
+
+    expect(charged.map((subscription) => subscription.id)).toEqual(['S2']);
+    expect(purchaseWithToken).toHaveBeenCalledTimes(1);
+    expect(store.get('S1')).toMatchObject({ cycle: 1, failed_attempts: 0, status: 'active' });
+    expect(events.find((event) => event.type === 'charge.skipped')).toMatchObject({
+      subscription: { id: 'S1' },
+      error: { code: 'UNKNOWN_PLAN' }
+    });
+  });
+
+  it('should start with a trial and charge when it ends', async () => {
+    const { manager, purchaseWithToken } = setup(async () => approved);
+    manager.definePlan({ id: 'trial', interval: 'month', amount: 5, trial_days: 14 });
+
+    const subscription = await manager.subscribe({
+      id: 'S1', plan_id: 'trial', ctid: 'C', pwt: 'P', start_date: start
+    });
+    expect(subscription.status).toBe('trialing');
+    expect(subscription.next_billing_date).toEqual(new Date(2024, 0, 15));
+
+    expect(await manager.runDue(new Date(2024, 0, 10))).toEqual([]);
+    expect(purchaseWithToken).not.toHaveBeenCalled();
+
+    const [charged] = await manager.runDue(new Date(2024, 0, 15));
+    expect(charged).toMatchObject({ status: 'active', cycle: 2 });
+    expect(charged.next_billing_date).toEqual(new Date(2024, 1, 15));
+  });
+
+  it('should charge the stored token with a deterministic tran_id', async () => {
+    const { manager, purchaseWithToken, events } = setup(async () => approved);
+    await manager.subscribe({ id: 'S1', plan_id: 'pro', ctid: 'C', pwt: 'P', start_date: start });
+
+    await manager.runDue(start);
+
+    expect(purchaseWithToken).toHaveBeenCalledWith(
+      { tran_id: generateBillingTranId('S1', 1), ctid: 'C', pwt: 'P', amount: 9.99, currency: undefined },
+      undefined
+    );
+    expect(events.map((event) => event.type)).toEqual(['subscription.created', 'charge.succeeded']);
+  });
+
+  it('should retry on the dunning schedule and cancel when retries run out', async () => {
+    const declined = new PayWayResponseError('Declined', { code: '1' });
+    const { manager, purchaseWithToken, events } = setup(async () => { throw declined; }, [1, 3]);
+    await manager.subscribe({ id: 'S1', plan_id: 'pro', ctid: 'C', pwt: 'P', start_date: start });
+
+    let [subscription] = await manager.runDue(start);
+    expect(subscription).toMatchObject({ status: 'past_due', failed_attempts: 1 });
+    expect(subscription.next_retry_at).toEqual(new Date(2024, 0, 2));
+
+    [subscription] = await manager.runDue(new Date(2024, 0, 2));
+    expect(subscription.next_retry_at).toEqual(new Date(2024, 0, 5));
+    expect(purchaseWithToken.mock.calls[1][0].tran_id).toBe(generateBillingTranId('S1', 1, 1));
+
+    [subscription] = await manager.runDue(new Date(2024, 0, 5));
+    expect(subscription).toMatchObject({ status: 'canceled', next_retry_at: null });
+    expect(events.at(-1)).toMatchObject({ type: 'subscription.canceled', reason: 'dunning_exhausted' });
+
+    expect(await manager.runDue(new Date(2024, 6, 1))).toEqual([]);
+  });
+
+  it('should reuse the tran_id after a network error', async () => {
+    const { manager, purchaseWithToken } = setup(async () => {
+      throw new PayWayNetworkError('timeout', { code: 'TIMEOUT' });
+    });
+    await manager.subscribe({ id: 'S1', plan_id: 'pro', ctid: 'C', pwt: 'P', start_date: start });
+
+    const [subscription] = await manager.runDue(start);
+    await manager.runDue(new Date(2024, 0, 2));
+
+    expect(subscription.failed_attempts).toBe(0);
+    expect(purchaseWithToken.mock.calls[0][0].tran_id).toBe(purchaseWithToken.mock.calls[1][0].tran_id);
+  });
+
+  it('should treat a duplicate tran_id as paid when check-transaction reports APPROVED', async () => {
+    const { manager, checkTransaction, events } = setup(async () => {
+      throw new PayWayResponseError('Duplicate', { code: '4' });
+    });
+    checkTransaction.mockResolvedValue(checkResponse('APPROVED'));
+    await manager.subscribe({ id: 'S1', plan_id: 'pro', ctid: 'C', pwt: 'P', start_date: start });
+
+    const [subscription] = await manager.runDue(start);
+
+    expect(checkTransaction).toHaveBeenCalledWith(generateBillingTranId('S1', 1), undefined);
+    expect(subscription).toMatchObject({ status: 'active', cycle: 2, failed_attempts: 0 });
+    expect(events.at(-1)).toMatchObject({ type: 'charge.succeeded', response: checkResponse('APPROVED') });
+  });
+
+  it('should count a duplicate tran_id as failed when the charge was declined', async () => {
+    const { manager, checkTransaction } = setup(async () => {
+      throw new PayWayResponseError('Duplicate', { code: '4' });
+    });
+    checkTransaction.mockResolvedValue(checkResponse('DECLINED'));
+    await manager.subscribe({ id: 'S1', plan_id: 'pro', ctid: 'C', pwt: 'P', start_date: start });
+
+    const [subscription] = await manager.runDue(start);
+
+    expect(subscription).toMatchObject({ status: 'past_due', failed_attempts: 1 });
+  });
+
+  it('should confirm a charge after a network error', async () => {
+    const { manager, purchaseWithToken, checkTransaction } = setup(async () => {
+      throw new PayWayNetworkError('timeout', { code: 'TIMEOUT' });
+    });
+    checkTransaction.mockResolvedValueOnce(checkResponse('PENDING')).mockResolvedValue(checkResponse('APPROVED'));
+    await manager.subscribe({ id: 'S1', plan_id: 'pro', ctid: 'C', pwt: 'P', start_date: start });
+
+    let [subscription] = await manager.runDue(start);
+    expect(subscription).toMatchObject({ status: 'past_due', failed_attempts: 0 });
+
+    [subscription] = await manager.runDue(new Date(2024, 0, 2));
+    expect(subscription).toMatchObject({ status: 'active', cycle: 2, failed_attempts: 0 });
+    expect(purchaseWithToken.mock.calls[1][0].tran_id).toBe(generateBillingTranId('S1', 1));
+  });
+
+  it('should retry the same tran_id while a purchase is pending', async () => {
+    const pending = { transaction_status: 'PENDING', status: { code: '00', message: 'Success!' } };
+    const { manager, purchaseWithToken, checkTransaction, events } = setup(async () => pending);
+    checkTransaction.mockResolvedValueOnce(checkResponse('PENDING')).mockResolvedValue(checkResponse('APPROVED'));
+    await manager.subscribe({ id: 'S1', plan_id: 'pro', ctid: 'C', pwt: 'P', start_date: start });
+
+    let [subscription] = await manager.runDue(start);
+    expect(subscription).toMatchObject({ status: 'past_due', failed_attempts: 0 });
+
+    purchaseWithToken.mockRejectedValue(new PayWayResponseError('Duplicate', { code: '4' }));
+    [subscription] = await manager.runDue(new Date(2024, 0, 2));
+
+    expect(purchaseWithToken.mock.calls.map(([params]) => params.tran_id)).toEqual([
+      generateBillingTranId('S1', 1),
+      generateBillingTranId('S1', 1)
+    ]);
+    expect(subscription).toMatchObject({ status: 'active', cycle: 2, failed_attempts: 0 });
+    expect(events.at(-1)).toMatchObject({ type: 'charge.succeeded' });
+  });
+
+  it('should skip instead of dunning on configuration errors', async () => {
+    // No RSA public key: every token purchase fails before anything is sent
+    const store = new MemorySubscriptionStore();
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+    const events: SubscriptionEvent[] = [];
+    const manager = new SubscriptionManager(client, { store, onEvent: (event) => { events.push(event); } });
+    manager.definePlan({ id: 'pro', interval: 'month', amount: 9.99 });
+    await manager.subscribe({ id: 'S1', plan_id: 'pro', ctid: 'C', pwt: 'P', start_date: start });
+
+    for (const day of [1, 2, 5, 10, 20]) {
+      expect(await manager.runDue(new Date(2024, 0, day))).toEqual([]);
+    }
+
+    expect(store.get('S1')).toMatchObject({ status: 'active', cycle: 1, failed_attempts: 0 });
+    expect(events.filter((event) => event.type === 'charge.skipped')).toHaveLength(5);
+    expect(events.at(-1)).toMatchObject({ error: { code: 'MISSING_RSA_PUBLIC_KEY' } });
+  });
+
+  it('should not check the transaction after a decline', async () => {
+    const { manager, checkTransaction } = setup(async () => {
+      throw new PayWayResponseError('Declined', { code: '1' });
+    });
+    await manager.subscribe({ id: 'S1', plan_id: 'pro', ctid: 'C', pwt: 'P', start_date: start });
+
+    await manager.runDue(start);
+
+    expect(checkTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should stop charging after cancel', async () => {
+    const store = new MemorySubscriptionStore();
+    const client = new PayWayClient("http://example.com/", "merchant", "key");
+    const purchaseWithToken = vi.spyOn(client, 'purchaseWithToken');
+    const manager = new SubscriptionManager(client, { store });
+    manager.definePlan({ id: 'pro', interval: 'month', amount: 9.99 });
+
+    await manager.subscribe({ id: 'S1', plan_id: 'pro', ctid: 'C', pwt: 'P', start_date: start });
+    await manager.cancel('S1');
+
+    expect(store.get('S1')?.status).toBe('canceled');
+    expect(await manager.runDue(start)).toEqual([]);
+    expect(purchaseWithToken).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import {
+  PayWayClient,
+  PayWayConfigError,
+  decryptForTesting,
+  verifyEncryptedPayload,
+  fixedClock
+} from '../src/index.js';
+
+const keyPair = (modulusLength = 1024) =>
+  generateKeyPairSync('rsa', {
+    modulusLength,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+
+const { publicKey, privateKey } = keyPair();
+
+describe('encrypted request pipeline', () => {
+  const client = new PayWayClient('http://example.com/', 'merchant_123', 'api_key_456', publicKey, {
+    clock: fixedClock('2024-01-15T10:30:00+07:00')
+  });
+
+  it('should encrypt pre-auth completion and sign merchant_auth + request_time + merchant_id', () => {
+    const payload = client.buildCompletePreAuthPayload({ tran_id: 'ORDER-123', complete_amount: 110 });
+
+    expect(Object.keys(payload.fields)).toEqual(['merchant_auth', 'request_time', 'merchant_id', 'hash']);
+    expect(verifyEncryptedPayload(client, payload, privateKey)).toEqual({
+      hash_valid: true,
+      data: { mc_id: 'merchant_123', tran_id: 'ORDER-123', complete_amount: 110 }
+    });
+  });
+
+  it('should encrypt pre-auth cancellation', () => {
+    const payload = client.buildCancelPreAuthPayload({ tran_id: 'ORDER-123' });
+
+    expect(payload.fields.request_time).toBe('20240115103000');
+    expect(verifyEncryptedPayload(client, payload, privateKey)).toEqual({
+      hash_valid: true,
+      data: { mc_id: 'merchant_123', tran_id: 'ORDER-123' }
+    });
+  });
+
+  it('should sign refunds as request_time + merchant_id + merchant_auth', () => {
+    const payload = client.buildRefundPayload({ tran_id: 'ORDER-123', refund_amount: 25 });
+
+    expect(Object.keys(payload.fields)).toEqual(['request_time', 'merchant_id', 'merchant_auth', 'hash']);
+    expect(verifyEncryptedPayload(client, payload, privateKey).hash_valid).toBe(true);
+  });
+
+  it('should decrypt data spanning several RSA blocks', () => {
+    const payout = Array.from({ length: 8 }, (_, i) => ({ acc: `00013387${i}`, amt: 10 }));
+    const payload = client.buildCompletePreAuthWithPayoutPayload({
+      tran_id: 'ORDER-123',
+      complete_amount: 100,
+      payout
+    });
+
+    expect(Buffer.from(payload.fields.merchant_auth, 'base64').length).toBeGreaterThan(256);
+    expect(decryptForTesting(payload.fields.merchant_auth, privateKey)).toEqual({
+      mc_id: 'merchant_123',
+      tran_id: 'ORDER-123',
+      complete_amount: 100,
+      payout: payout.map(({ acc }) => ({ acc, amt: 10 }))
+    });
+  });
+});
+
+describe('verifyEncryptedPayload', () => {
+  const client = new PayWayClient('http://example.com/', 'merchant_123', 'api_key_456', publicKey);
+
+  it('should report a tampered field', () => {
+    const payload = client.buildCancelPreAuthPayload({ tran_id: 'ORDER-123' });
+    const tampered = { ...payload, fields: { ...payload.fields, request_time: '20000101000000' } };
+
+    expect(verifyEncryptedPayload(client, tampered, privateKey).hash_valid).toBe(false);
+  });
+
+  it('should reject blocks larger than the private key modulus', () => {
+    const { privateKey: small } = generateKeyPairSync('rsa', {
+      modulusLength: 1024,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    });
+
+    expect(() => decryptForTesting(Buffer.alloc(128, 0xff).toString('base64'), small)).toThrow(
+      expect.objectContaining({ code: 'INVALID_MERCHANT_AUTH' })
+    );
+  });
+
+  it('should reject a private key that does not match', () => {
+    const payload = client.buildCancelPreAuthPayload({ tran_id: 'ORDER-123' });
+    const other = keyPair();
+
+    expect(() => decryptForTesting(payload, other.privateKey)).toThrow(PayWayConfigError);
+    expect(() => decryptForTesting(payload, other.privateKey)).toThrow(/does not match/);
+    expect(() => decryptForTesting(client.buildCheckTransactionPayload({ tran_id: 'ORDER-123' }), privateKey)).toThrow(
+      expect.objectContaining({ code: 'INVALID_MERCHANT_AUTH' })
+    );
+  });
+});
+
+describe('RSA chunking', () => {
+  const khmer = 'សូមអរគុណសម្រាប់ការទិញទំនិញរបស់អ្នក '.repeat(6);
+
+  it('should chunk Khmer text by UTF-8 bytes', () => {
+    const client = new PayWayClient('http://example.com/', 'merchant_123', 'api_key_456', publicKey);
+
+    const payload = client.buildTokenPurchasePayload({
+      tran_id: 'SUB-1',
+      ctid: 'CUSTOMER-42',
+      pwt: 'TOKEN',
+      amount: 10,
+      return_params: khmer
+    });
+
+    expect(Buffer.byteLength(khmer)).toBeGreaterThan(117 * 3);
+    expect(decryptForTesting(payload, privateKey)).toMatchObject({ return_params: khmer });
+  });
+
+  it.each([2048, 4096])('should size chunks from a %i-bit key', (modulusLength) => {
+    const keys = keyPair(modulusLength);
+    const client = new PayWayClient('http://example.com/', 'merchant_123', 'api_key_456', keys.publicKey);
+
+    const payload = client.buildTokenPurchasePayload({
+      tran_id: 'SUB-1',
+      ctid: 'CUSTOMER-42',
+      pwt: 'TOKEN',
+      amount: 10,
+      return_params: khmer
+    });
+    const encrypted = Buffer.from(payload.fields.merchant_auth, 'base64');
+    const plaintext = Buffer.byteLength(JSON.stringify(decryptForTesting(payload, keys.privateKey)));
+
+    expect(encrypted.length).toBe(Math.ceil(plaintext / (modulusLength / 8 - 11)) * (modulusLength / 8));
+    expect(decryptForTesting(payload, keys.privateKey)).toMatchObject({ return_params: khmer });
+  }, 30_000); // 4096-bit key generation can take several seconds
+
+  it('should throw PayWayConfigError for a key that cannot be parsed', () => {
+    const client = new PayWayClient('http://example.com/', 'merchant_123', 'api_key_456', 'not a key');
+
+    expect(() => client.buildCancelPreAuthPayload({ tran_id: 'ORDER-123' })).toThrow(
+      expect.objectContaining({ code: 'INVALID_RSA_PUBLIC_KEY' })
+    );
+  });
+});
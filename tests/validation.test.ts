@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PayWayClient,
+  PayWayConfigError,
+  PayWayValidationError,
+  validateTransactionParams,
+  money
+} from '../src/index.js';
+
+const valid = {
+  tran_id: 'ORDER-123',
+  amount: 10,
+  firstname: 'Dara',
+  email: 'dara@example.com',
+  phone: '+85512345678',
+  return_url: 'https://mysite.com/callback',
+  lifetime: 30
+};
+
+const fields = (params: any) => validateTransactionParams(params).map((issue) => `${issue.field}:${issue.rule}`);
+
+describe('validateTransactionParams', () => {
+  it('should accept valid parameters', () => {
+    expect(validateTransactionParams(valid)).toEqual([]);
+    expect(validateTransactionParams({ tran_id: 'ORDER-1', items: [{ name: 'Tea', quantity: 1, price: 1 }] })).toEqual([]);
+  });
+
+  it('should require tran_id and amount', () => {
+    expect(fields({})).toEqual(['tran_id:required', 'amount:required']);
+    expect(fields({ tran_id: 'ORDER-1', amount: 0 })).toEqual(['amount:positive']);
+  });
+
+  it('should report every violation at once', () => {
+    expect(
+      fields({
+        tran_id: 'ORDER 123 WITH SPACES!',
+        amount: money(1),
+        currency: 'KHR',
+        firstname: '  A name that is far too long  ',
+        lastname: '  Sok  ',
+        email: 'dara@',
+        phone: '012 345 678',
+        lifetime: 2,
+        return_url: '/callback',
+        cancel_url: 'javascript:alert(1)'
+      })
+    ).toEqual([
+      'tran_id:max_length',
+      'tran_id:format',
+      'amount:currency',
+      'firstname:max_length',
+      'email:format',
+      'phone:format',
+      'lifetime:range',
+      'return_url:url',
+      'cancel_url:url'
+    ]);
+    expect(fields({ ...valid, currency: 'EUR', lifetime: 43_201 })).toEqual(['currency:enum', 'lifetime:range']);
+  });
+});
+
+describe('buildTransactionPayload validation', () => {
+  it('should throw PayWayValidationError in strict mode', () => {
+    const client = new PayWayClient('http://example.com/', 'merchant', 'key', undefined, { validation: 'strict' });
+
+    const fn = () => client.buildTransactionPayload({ amount: 10, email: 'not-an-email' });
+    expect(fn).toThrow(PayWayValidationError);
+    expect(fn).toThrow(PayWayConfigError);
+    try {
+      fn();
+    } catch (error) {
+      expect(error).toMatchObject({ code: 'VALIDATION_FAILED' });
+      expect((error as PayWayValidationError).issues.map((issue) => issue.field)).toEqual(['tran_id', 'email']);
+    }
+    expect(client.buildTransactionPayload(valid).fields.tran_id).toBe('ORDER-123');
+  });
+
+  it('should sign anyway and report in warn mode', () => {
+    const onValidationWarning = vi.fn();
+    const client = new PayWayClient('http://example.com/', 'merchant', 'key', undefined, { onValidationWarning });
+
+    const payload = client.buildTransactionPayload({ tran_id: 'ORDER-123', amount: 10, lifetime: 1 });
+
+    expect(payload.fields.lifetime).toBe('1');
+    expect(onValidationWarning).toHaveBeenCalledOnce();
+    expect(onValidationWarning.mock.calls[0][0].message).toMatch(/lifetime must be a whole number of minutes/);
+  });
+
+  it('should not log warnings without onValidationWarning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = new PayWayClient('http://example.com/', 'merchant', 'key');
+
+    try {
+      client.buildTransactionPayload({ tran_id: 'ORDER-123', amount: 10, lifetime: 1 });
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('should skip validation when off', () => {
+    const onValidationWarning = vi.fn();
+    const client = new PayWayClient('http://example.com/', 'merchant', 'key', undefined, {
+      validation: 'off',
+      onValidationWarning
+    });
+
+    expect(client.buildTransactionPayload({}).fields).toHaveProperty('hash');
+    expect(onValidationWarning).not.toHaveBeenCalled();
+  });
+});